@@ -1,6 +1,6 @@
 // src/App.tsx
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ChatArea } from './components/ChatArea';
 import { NoteView } from './components/NoteView';
@@ -8,19 +8,41 @@ import { FlowchartView } from './components/FlowchartView';
 import { InstallPrompt } from './components/InstallPrompt';
 import { SettingsModal } from './components/SettingsModal';
 import { QuizModal } from './components/QuizModal';
+import { QuizBuilderModal } from './components/QuizBuilderModal';
 import { Notification } from './components/Notification';
 import { ModeSuggestionBanner } from './components/ModeSuggestionBanner';
-import { Conversation, Message, APISettings, Note, StudySession, Flowchart, TutorMode } from './types';
+import { LockScreen } from './components/LockScreen';
+import { LibraryModal } from './components/LibraryModal';
+import { QuizHistoryView } from './components/QuizHistoryView';
+import { DeckView } from './components/DeckView';
+import { FlashcardReviewModal } from './components/FlashcardReviewModal';
+import { Attachment, Citation, Comparison, ComparisonAnswer, Conversation, Flashcard, FlashcardDeck, LibraryDocument, Message, APISettings, Note, QuizOptions, QuizSource, StudySession, Flowchart, TokenUsage, TutorMode } from './types';
 import { generateId } from './utils/helpers';
 import { generateSmartTitle } from './services/titleGenerator';
 import { usePWA } from './hooks/usePWA';
 import { Menu } from 'lucide-react';
 import { storageUtils } from './utils/storage';
+import { BackupData } from './utils/backup';
+import { acquireConversationLock } from './utils/sync';
+import { onDatabaseNotice } from './utils/db';
+import { appendMessage, findLatestLeaf, getActivePath, switchBranch, withActivePath } from './utils/conversationTree';
+import { collectAttachments, deleteAttachments } from './utils/attachments';
+import { invalidateLibrary, loadLibrary, restoreLibrary } from './utils/library';
 import { aiService } from './services/aiService';
+import { ProviderError } from './services/resilience';
+import { ProviderDefinition, getProvider, listProviders, isProviderConfigured } from './services/providers';
 import { generateFlowchartFromConversation } from './services/flowchartGenerator';
 import { detectBestMode, shouldSuggestMode } from './services/modeDetection';
+import { SearchResult } from './services/search';
+import { DueCard, getDueCards } from './services/spacedRepetition';
+import { DEFAULT_QUIZ_OPTIONS, resolveQuizSource } from './services/quizSources';
 
-type ActiveView = 'chat' | 'note' | 'flowchart';
+type ActiveView = 'chat' | 'note' | 'flowchart' | 'study';
+
+type VaultState = 'none' | 'locked' | 'unlocked';
+
+// Any of these counts as activity and restarts the auto-lock timer
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
 
 interface NotificationState {
   show: boolean;
@@ -33,11 +55,16 @@ function App() {
   const [conversations, setConversations] = useState<Conversation[]>(() => storageUtils.getConversations());
   const [notes, setNotes] = useState<Note[]>(() => storageUtils.getNotes());
   const [flowcharts, setFlowcharts] = useState<Flowchart[]>(() => storageUtils.getFlowcharts());
+  const [studySessions, setStudySessions] = useState<StudySession[]>(() => storageUtils.getStudySessions());
+  const [decks, setDecks] = useState<FlashcardDeck[]>(() => storageUtils.getDecks());
   const [settings, setSettings] = useState<APISettings>(() => storageUtils.getSettings());
+  const [vaultState, setVaultState] = useState<VaultState>(() => storageUtils.getVaultState());
   const [activeView, setActiveView] = useState<ActiveView>('chat');
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [currentNoteId, setCurrentNoteId] = useState<string | null>(null);
   const [currentFlowchartId, setCurrentFlowchartId] = useState<string | null>(null);
+  const [currentStudySessionId, setCurrentStudySessionId] = useState<string | null>(null);
+  const [currentDeckId, setCurrentDeckId] = useState<string | null>(null);
   const [sidebarFolded, setSidebarFolded] = useState(() => {
     const stored = localStorage.getItem('ai-tutor-sidebar-folded');
     return stored ? JSON.parse(stored) : false;
@@ -45,12 +72,25 @@ function App() {
   
   const [isChatLoading, setIsChatLoading] = useState(false);
   const [isQuizLoading, setIsQuizLoading] = useState(false);
+  const [isFlashcardLoading, setIsFlashcardLoading] = useState(false);
   const [isFlowchartLoading, setIsFlowchartLoading] = useState(false);
   const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [isQuizModalOpen, setIsQuizModalOpen] = useState(false);
+  const [isQuizBuilderOpen, setIsQuizBuilderOpen] = useState(false);
+  // The builder reopens with the choices from the last quiz
+  const [quizOptions, setQuizOptions] = useState<QuizOptions>(DEFAULT_QUIZ_OPTIONS);
   const [studySession, setStudySession] = useState<StudySession | null>(null);
+  // Cards for the open review, taken when it starts so rescheduled cards do not reshuffle it
+  const [reviewQueue, setReviewQueue] = useState<DueCard[] | null>(null);
+  // Compare mode is on while two or more models are picked
+  const [compareModels, setCompareModels] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  // Message to scroll to after opening a search result; the nonce lets the same hit be opened twice
+  const [focusTarget, setFocusTarget] = useState<{ messageId: string; nonce: number } | null>(null);
   
   // Notification state
   const [notification, setNotification] = useState<NotificationState>({
@@ -67,6 +107,10 @@ function App() {
   
   // Use AbortController for proper cancellation
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Cancels quiz generation when the builder is closed
+  const quizAbortRef = useRef<AbortController | null>(null);
+  // Title, flashcard and flowchart requests, keyed to the id of the conversation or note they work on
+  const backgroundAbortRef = useRef(new Map<AbortController, string>());
 
   const { isInstallable, isInstalled, installApp, dismissInstallPrompt } = usePWA();
   
@@ -90,6 +134,9 @@ function App() {
       });
       setCurrentConversationId(sorted[0].id);
     }
+    if (storageUtils.getQuarantine().length > 0) {
+      showNotification('Some saved data could not be read. It was kept aside in Settings → Data.', 'error');
+    }
   }, []);
 
   useEffect(() => {
@@ -109,6 +156,96 @@ function App() {
     aiService.updateSettings(settings);
   }, [settings]);
 
+  const reloadDocuments = useCallback(() => {
+    loadLibrary().then(setDocuments);
+  }, []);
+
+  useEffect(reloadDocuments, [reloadDocuments]);
+
+  // Pick up saves made in other tabs, keeping local edits that are still waiting to be saved
+  useEffect(() => storageUtils.subscribe(change => {
+    switch (change) {
+      case 'conversations':
+        setConversations(prev => storageUtils.mergeWithStored('conversations', prev));
+        break;
+      case 'notes':
+        setNotes(prev => storageUtils.mergeWithStored('notes', prev));
+        break;
+      case 'flowcharts':
+        setFlowcharts(prev => storageUtils.mergeWithStored('flowcharts', prev));
+        break;
+      case 'studySessions':
+        setStudySessions(prev => storageUtils.mergeWithStored('studySessions', prev));
+        break;
+      case 'decks':
+        setDecks(prev => storageUtils.mergeWithStored('decks', prev));
+        break;
+      case 'settings':
+        setSettings(storageUtils.getSettings());
+        setVaultState(storageUtils.getVaultState());
+        break;
+      case 'documents':
+        invalidateLibrary();
+        reloadDocuments();
+        break;
+    }
+  }), [reloadDocuments]);
+
+  // Another tab upgraded the database and this tab's connection was closed; saving needs a reload
+  useEffect(() => onDatabaseNotice(notice => {
+    if (notice === 'versionchange') {
+      setNotification({ show: true, message: 'AI Tutor was updated in another tab. Reload this tab to keep saving your changes.', type: 'error' });
+    }
+  }), []);
+
+  const startBackgroundRequest = (sourceId: string) => {
+    const controller = new AbortController();
+    backgroundAbortRef.current.set(controller, sourceId);
+    return controller;
+  };
+
+  const endBackgroundRequest = (controller: AbortController) => {
+    backgroundAbortRef.current.delete(controller);
+  };
+
+  // Cancels the background requests for one conversation or note, or all of them; returns how many were running
+  const cancelBackgroundRequests = useCallback((sourceId?: string) => {
+    let cancelled = 0;
+    for (const [controller, id] of backgroundAbortRef.current) {
+      if (sourceId !== undefined && id !== sourceId) continue;
+      controller.abort();
+      backgroundAbortRef.current.delete(controller);
+      cancelled++;
+    }
+    return cancelled;
+  }, []);
+
+  useEffect(() => () => { cancelBackgroundRequests(); }, [cancelBackgroundRequests]);
+
+  const handleLockVault = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setSettings(storageUtils.lockVault());
+    setVaultState(storageUtils.getVaultState());
+    setSettingsOpen(false);
+  }, []);
+
+  // Auto-lock after inactivity; never while a response is streaming
+  useEffect(() => {
+    const minutes = settings.autoLockMinutes;
+    if (vaultState !== 'unlocked' || !minutes || isChatLoading) return;
+
+    let timer = setTimeout(handleLockVault, minutes * 60_000);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(handleLockVault, minutes * 60_000);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [vaultState, settings.autoLockMinutes, isChatLoading, handleLockVault]);
+
   // Debounced save to prevent too frequent writes
   useEffect(() => {
     const timeoutId = setTimeout(() => {
@@ -131,6 +268,20 @@ function App() {
     return () => clearTimeout(timeoutId);
   }, [flowcharts]);
 
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      storageUtils.saveStudySessions(studySessions);
+    }, 500);
+    return () => clearTimeout(timeoutId);
+  }, [studySessions]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      storageUtils.saveDecks(decks);
+    }, 500);
+    return () => clearTimeout(timeoutId);
+  }, [decks]);
+
   useEffect(() => { 
     localStorage.setItem('ai-tutor-sidebar-folded', JSON.stringify(sidebarFolded)); 
   }, [sidebarFolded]);
@@ -157,8 +308,31 @@ function App() {
     flowcharts.find(f => f.id === currentFlowchartId), 
     [flowcharts, currentFlowchartId]
   );
+
+  const currentStudySession = useMemo(() =>
+    studySessions.find(s => s.id === currentStudySessionId) || null,
+    [studySessions, currentStudySessionId]
+  );
+
+  const currentDeck = useMemo(() =>
+    decks.find(d => d.id === currentDeckId) || null,
+    [decks, currentDeckId]
+  );
   
-  const hasApiKey = !!(settings.googleApiKey || settings.zhipuApiKey || settings.mistralApiKey);
+  const providers = useMemo(() => listProviders(settings), [settings]);
+
+  const hasApiKey = useMemo(() => 
+    providers.some(provider => isProviderConfigured(provider, settings)), 
+    [providers, settings]
+  );
+
+  // Retrieval only runs when it is switched on and there is something to search
+  const libraryActive = settings.useLibrary && documents.length > 0;
+
+  const compareProviders = useMemo(() =>
+    providers.filter(provider => isProviderConfigured(provider, settings)),
+    [providers, settings]
+  );
   
   // --- GENERAL HANDLERS ---
   const handleSelectConversation = (id: string | null) => {
@@ -166,6 +340,8 @@ function App() {
     setCurrentConversationId(id);
     setCurrentNoteId(null);
     setCurrentFlowchartId(null);
+    setCurrentStudySessionId(null);
+    setCurrentDeckId(null);
     if (window.innerWidth < 1024) setSidebarOpen(false);
   };
 
@@ -174,6 +350,8 @@ function App() {
     setCurrentNoteId(id);
     setCurrentConversationId(null);
     setCurrentFlowchartId(null);
+    setCurrentStudySessionId(null);
+    setCurrentDeckId(null);
     if (window.innerWidth < 1024) setSidebarOpen(false);
   };
 
@@ -182,9 +360,54 @@ function App() {
     setCurrentFlowchartId(id);
     setCurrentNoteId(null);
     setCurrentConversationId(null);
+    setCurrentStudySessionId(null);
+    setCurrentDeckId(null);
+    if (window.innerWidth < 1024) setSidebarOpen(false);
+  };
+
+  const handleSelectStudySession = (id: string | null) => {
+    setActiveView('study');
+    setCurrentStudySessionId(id);
+    setCurrentDeckId(null);
+    setCurrentConversationId(null);
+    setCurrentNoteId(null);
+    setCurrentFlowchartId(null);
+    if (window.innerWidth < 1024) setSidebarOpen(false);
+  };
+
+  const handleSelectDeck = (id: string) => {
+    setActiveView('study');
+    setCurrentDeckId(id);
+    setCurrentStudySessionId(null);
+    setCurrentConversationId(null);
+    setCurrentNoteId(null);
+    setCurrentFlowchartId(null);
     if (window.innerWidth < 1024) setSidebarOpen(false);
   };
 
+  // Opens a search hit; a message on another branch makes that branch active first
+  const handleOpenSearchResult = ({ document }: SearchResult) => {
+    if (document.noteId) {
+      handleSelectNote(document.noteId);
+      return;
+    }
+    if (document.flowchartId) {
+      handleSelectFlowchart(document.flowchartId);
+      return;
+    }
+    if (!document.conversationId) return;
+
+    const { messageId } = document;
+    const conversation = conversations.find(c => c.id === document.conversationId);
+    if (conversation && messageId && !getActivePath(conversation).some(m => m.id === messageId)) {
+      setConversations(prev => prev.map(conv =>
+        conv.id === conversation.id ? { ...conv, activeLeafId: findLatestLeaf(conv, messageId) } : conv
+      ));
+    }
+    handleSelectConversation(document.conversationId);
+    setFocusTarget(messageId ? { messageId, nonce: Date.now() } : null);
+  };
+
   // --- CHAT HANDLERS ---
   const handleNewConversation = () => {
     const newConversation: Conversation = {
@@ -198,72 +421,78 @@ function App() {
     handleSelectConversation(newConversation.id);
   };
 
-  const handleSendMessage = async (content: string) => {
+  // Resolves to false when the message cannot be sent, so the input keeps the draft and its attachments
+  const handleSendMessage = async (content: string, attachments: Attachment[] = []): Promise<boolean> => {
     if (!hasApiKey) {
       showNotification('Please set your API key in the settings first.', 'error');
-      return;
+      return false;
+    }
+
+    const existingConversation = conversations.find(c => c.id === currentConversationId);
+    const conversationId = activeView !== 'chat' || !existingConversation ? generateId() : existingConversation.id;
+
+    // Only one tab at a time may stream into a conversation
+    const releaseLock = await acquireConversationLock(conversationId);
+    if (!releaseLock) {
+      showNotification('This conversation is already getting a reply in another tab.', 'error');
+      return false;
     }
 
+    // The reply streams on in the background; the lock is released when it ends
+    sendAcceptedMessage(content, attachments, conversationId, existingConversation, releaseLock);
+    return true;
+  };
+
+  const sendAcceptedMessage = async (
+    content: string,
+    attachments: Attachment[],
+    conversationId: string,
+    existingConversation: Conversation | undefined,
+    releaseLock: () => void
+  ) => {
     const userMessage: Message = { 
       id: generateId(), 
       content, 
       role: 'user', 
-      timestamp: new Date() 
+      timestamp: new Date(),
+      attachments: attachments.length > 0 ? attachments : undefined,
     };
+    // A message with only attachments is titled after its files
+    const titleSource = content || attachments.map(a => a.name).join(', ');
 
     let conversationToUpdate: Conversation;
-    const existingConversation = conversations.find(c => c.id === currentConversationId);
 
-    if (activeView !== 'chat' || !existingConversation) {
-      // Generate smart title (with AI if available)
-      const initialTitle = await generateSmartTitle(
-        content,
-        settings,
-        (aiTitle) => {
-          // Update title once AI generates a better one
-          setConversations(prev => prev.map(c =>
-            c.id === conversationToUpdate.id
-              ? { ...c, title: aiTitle }
-              : c
-          ));
-        }
-      );
-
-      conversationToUpdate = {
-        id: generateId(),
-        title: initialTitle,
-        messages: [userMessage],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-      setConversations(prev => [conversationToUpdate, ...prev]);
-      handleSelectConversation(conversationToUpdate.id);
-
-      // ✨ Smart mode detection on first message of new conversation
-      const detection = detectBestMode(content);
-      if (shouldSuggestMode(detection, settings.selectedTutorMode)) {
-        setModeSuggestion({
-          mode: detection.suggestedMode,
-          show: true
-        });
-      }
-    } else {
-      // ✨ Smart mode detection on first message of existing empty conversation
-      let titleToUse = existingConversation.title;
-      
-      if (existingConversation.messages.length === 0) {
-        titleToUse = await generateSmartTitle(
-          content,
+    try {
+      if (activeView !== 'chat' || !existingConversation) {
+        // Generate smart title (with AI if available)
+        const titleRequest = startBackgroundRequest(conversationId);
+        const initialTitle = await generateSmartTitle(
+          titleSource,
           settings,
           (aiTitle) => {
+            // Update title once AI generates a better one
             setConversations(prev => prev.map(c =>
-              c.id === existingConversation.id
+              c.id === conversationToUpdate.id
                 ? { ...c, title: aiTitle }
                 : c
             ));
-          }
+          },
+          titleRequest.signal,
+          () => endBackgroundRequest(titleRequest)
         );
 
+        conversationToUpdate = {
+          id: conversationId,
+          title: initialTitle,
+          messages: [userMessage],
+          activeLeafId: userMessage.id,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+        setConversations(prev => [conversationToUpdate, ...prev]);
+        handleSelectConversation(conversationToUpdate.id);
+
+        // ✨ Smart mode detection on first message of new conversation
         const detection = detectBestMode(content);
         if (shouldSuggestMode(detection, settings.selectedTutorMode)) {
           setModeSuggestion({
@@ -271,76 +500,153 @@ function App() {
             show: true
           });
         }
+      } else {
+        // ✨ Smart mode detection on first message of existing empty conversation
+        let titleToUse = existingConversation.title;
+        
+        if (existingConversation.messages.length === 0) {
+          const titleRequest = startBackgroundRequest(existingConversation.id);
+          titleToUse = await generateSmartTitle(
+            titleSource,
+            settings,
+            (aiTitle) => {
+              setConversations(prev => prev.map(c =>
+                c.id === existingConversation.id
+                  ? { ...c, title: aiTitle }
+                  : c
+              ));
+            },
+            titleRequest.signal,
+            () => endBackgroundRequest(titleRequest)
+          );
+
+          const detection = detectBestMode(content);
+          if (shouldSuggestMode(detection, settings.selectedTutorMode)) {
+            setModeSuggestion({
+              mode: detection.suggestedMode,
+              show: true
+            });
+          }
+        }
+
+        const path = getActivePath(existingConversation);
+        conversationToUpdate = {
+          ...appendMessage(existingConversation, { ...userMessage, parentId: path[path.length - 1]?.id }),
+          title: titleToUse,
+          updatedAt: new Date(),
+        };
+        setConversations(prev => prev.map(c => 
+          c.id === conversationToUpdate.id ? conversationToUpdate : c
+        ));
       }
 
-      conversationToUpdate = {
-        ...existingConversation,
-        title: titleToUse,
-        messages: [...existingConversation.messages, userMessage],
-        updatedAt: new Date(),
-      };
-      setConversations(prev => prev.map(c => 
-        c.id === conversationToUpdate.id ? conversationToUpdate : c
-      ));
+      const comparedModels = compareModels.filter(id => compareProviders.some(p => p.id === id));
+      if (comparedModels.length >= 2) {
+        await generateComparison(conversationToUpdate, userMessage.id, comparedModels);
+      } else {
+        await generateReply(conversationToUpdate, userMessage.id);
+      }
+    } finally {
+      releaseLock();
     }
+  };
+
+  /**
+   * Streams a new assistant reply as a child of `parentId` and makes it the
+   * active leaf. Regenerating passes the parent of the old reply, so the old
+   * reply stays on as a sibling; `previousLeafId` is shown again if the new
+   * reply is cancelled before any text arrives.
+   */
+  const generateReply = async (conversation: Conversation, parentId: string, previousLeafId?: string) => {
+    setConversations(prev => prev.map(conv =>
+      conv.id === conversation.id ? { ...conv, activeLeafId: parentId } : conv
+    ));
 
     setIsChatLoading(true);
-    
     // Create new abort controller for this request
-    abortControllerRef.current = new AbortController();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const assistantMessage: Message = { 
+      id: generateId(), 
+      content: '', 
+      role: 'assistant', 
+      timestamp: new Date(), 
+      parentId,
+      model: settings.selectedModel,
+      tutorMode: settings.selectedTutorMode,
+    };
+    let fullResponse = '';
+    let answeredBy = assistantMessage.model;
+    let usage: TokenUsage | undefined;
+    let citations: Citation[] | undefined;
+
+    const addReply = (message: Message) => {
+      setConversations(prev => prev.map(conv =>
+        conv.id === conversation.id ? { ...appendMessage(conv, message), updatedAt: new Date() } : conv
+      ));
+    };
 
     try {
-      const assistantMessage: Message = { 
-        id: generateId(), 
-        content: '', 
-        role: 'assistant', 
-        timestamp: new Date(), 
-        model: settings.selectedModel 
-      };
       setStreamingMessage(assistantMessage);
 
-      let fullResponse = '';
-      const messagesForApi = conversationToUpdate.messages.map(m => ({ 
-        role: m.role, 
-        content: m.content 
-      }));
+      const context = await prepareContext(
+        withActivePath({ ...conversation, activeLeafId: parentId }),
+        abortController.signal
+      );
 
-      for await (const chunk of aiService.generateStreamingResponse(messagesForApi)) {
-        // Check if aborted
-        if (abortControllerRef.current?.signal.aborted) {
-          break;
+      const handleProvider = (provider: ProviderDefinition) => {
+        if (provider.id !== answeredBy) {
+          showNotification(`Switched to ${provider.name} after an error`, 'error');
         }
+        answeredBy = provider.id;
+        setStreamingMessage(prev => (prev ? { ...prev, model: provider.id } : null));
+      };
+
+      for await (const chunk of aiService.generateStreamingResponse(context.messages, {
+        onProvider: handleProvider,
+        onUsage: reported => { usage = reported; },
+        signal: abortController.signal,
+        summary: context.summary?.text,
+        useLibrary: libraryActive,
+        onCitations: found => {
+          citations = found;
+          setStreamingMessage(prev => (prev ? { ...prev, citations } : null));
+        },
+      })) {
         fullResponse += chunk;
         setStreamingMessage(prev => (prev ? { ...prev, content: fullResponse } : null));
       }
 
-      const finalAssistantMessage: Message = { ...assistantMessage, content: fullResponse };
-      
-      setConversations(prev => prev.map(conv =>
-        conv.id === conversationToUpdate.id
-          ? { ...conv, messages: [...conv.messages, finalAssistantMessage], updatedAt: new Date() }
-          : conv
-      ));
+      addReply({ ...assistantMessage, content: fullResponse, model: answeredBy, usage, citations });
     } catch (error) {
-      // Don't show error if request was aborted
-      if (abortControllerRef.current?.signal.aborted) {
+      // Don't show error if request was aborted, but keep whatever had already streamed
+      if (abortController.signal.aborted) {
         console.log('Message generation was cancelled');
-        showNotification('Message generation stopped', 'success');
+        if (fullResponse) {
+          addReply({ ...assistantMessage, content: fullResponse, model: answeredBy, usage, citations });
+        } else if (previousLeafId) {
+          setConversations(prev => prev.map(conv =>
+            conv.id === conversation.id ? { ...conv, activeLeafId: previousLeafId } : conv
+          ));
+        }
+      } else if (error instanceof ProviderError && error.kind === 'stalled' && fullResponse) {
+        addReply({ ...assistantMessage, content: fullResponse, model: answeredBy, stalled: true, usage, citations });
+        showNotification('The response stalled. Continue or retry it from the message.', 'error');
       } else {
-        console.error('Error sending message:', error);
+        console.error('Error generating response:', error);
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        showNotification(`Failed to send message: ${errorMsg}`, 'error');
+        showNotification(`Failed to get a response: ${errorMsg}`, 'error');
         
         const errorMessage: Message = { 
           id: generateId(), 
           content: `Sorry, an error occurred. Error: ${errorMsg}`, 
           role: 'assistant', 
-          timestamp: new Date() 
+          timestamp: new Date(),
+          parentId,
         };
         setConversations(prev => prev.map(conv =>
-          conv.id === conversationToUpdate.id
-            ? { ...conv, messages: [...conv.messages, errorMessage] }
-            : conv
+          conv.id === conversation.id ? appendMessage(conv, errorMessage) : conv
         ));
       }
     } finally {
@@ -350,95 +656,268 @@ function App() {
     }
   };
 
-  const handleEditMessage = (messageId: string, newContent: string) => {
-    setConversations(prev => prev.map(conv => {
-      if (conv.id === currentConversationId) {
-        return {
-          ...conv,
-          messages: conv.messages.map(msg =>
-            msg.id === messageId ? { ...msg, content: newContent } : msg
-          ),
-          updatedAt: new Date(),
-        };
+  /**
+   * Streams answers to `parentId` from several providers at once. The answers
+   * stay out of the conversation until one is kept.
+   */
+  const generateComparison = async (conversation: Conversation, parentId: string, modelIds: string[]) => {
+    setConversations(prev => prev.map(conv =>
+      conv.id === conversation.id ? { ...conv, activeLeafId: parentId } : conv
+    ));
+
+    setIsChatLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const answers: ComparisonAnswer[] = modelIds.map(model => ({
+      message: { id: generateId(), content: '', role: 'assistant', timestamp: new Date(), parentId, model, tutorMode: settings.selectedTutorMode },
+      status: 'streaming',
+    }));
+    setComparison({ conversationId: conversation.id, parentId, answers });
+
+    const updateAnswer = (messageId: string, update: (answer: ComparisonAnswer) => ComparisonAnswer) => {
+      setComparison(prev => prev && {
+        ...prev,
+        answers: prev.answers.map(answer => (answer.message.id === messageId ? update(answer) : answer)),
+      });
+    };
+
+    try {
+      const context = await prepareContext(
+        withActivePath({ ...conversation, activeLeafId: parentId }),
+        abortController.signal,
+        modelIds
+      );
+
+      await Promise.all(answers.map(async ({ message }) => {
+        let fullResponse = '';
+        try {
+          for await (const chunk of aiService.generateStreamingResponse(context.messages, {
+            providerId: message.model,
+            onUsage: usage => updateAnswer(message.id, answer => ({ ...answer, message: { ...answer.message, usage } })),
+            signal: abortController.signal,
+            summary: context.summary?.text,
+            useLibrary: libraryActive,
+            onCitations: citations => updateAnswer(message.id, answer => ({ ...answer, message: { ...answer.message, citations } })),
+          })) {
+            fullResponse += chunk;
+            updateAnswer(message.id, answer => ({ ...answer, message: { ...answer.message, content: fullResponse } }));
+          }
+          updateAnswer(message.id, answer => ({ ...answer, status: 'done' }));
+        } catch (error) {
+          // One model failing leaves the other columns streaming
+          const stalled = error instanceof ProviderError && error.kind === 'stalled';
+          updateAnswer(message.id, answer => ({
+            ...answer,
+            message: { ...answer.message, stalled: stalled && !!fullResponse },
+            status: fullResponse ? 'done' : 'failed',
+            error: abortController.signal.aborted
+              ? (fullResponse ? 'Stopped.' : undefined)
+              : error instanceof Error ? error.message : 'Unknown error',
+          }));
+        }
+      }));
+    } catch (error) {
+      // Preparing the shared context failed, so no model was asked
+      if (!abortController.signal.aborted) {
+        console.error('Error preparing comparison:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        showNotification(`Failed to get a response: ${errorMsg}`, 'error');
       }
-      return conv;
+      setComparison(null);
+    } finally {
+      setIsChatLoading(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  // Adds the kept answer as the reply; the other answers stay on as its siblings
+  const handleKeepComparisonAnswer = (messageId: string) => {
+    if (!comparison || isChatLoading) return;
+    const kept = comparison.answers.find(answer => answer.message.id === messageId);
+    if (!kept) return;
+    const others = comparison.answers.filter(answer => answer !== kept && answer.message.content);
+
+    setConversations(prev => prev.map(conv => {
+      if (conv.id !== comparison.conversationId) return conv;
+      const withOthers = others.reduce((acc, answer) => appendMessage(acc, answer.message), conv);
+      return { ...appendMessage(withOthers, kept.message), updatedAt: new Date() };
     }));
+    setComparison(null);
+  };
+
+  const handleDiscardComparison = () => {
+    if (isChatLoading) return;
+    setComparison(null);
+  };
+
+  // Fits the history into the model's window and stores any new running summary
+  const prepareContext = async (conversation: Conversation, signal: AbortSignal, providerIds?: string[]) => {
+    const context = await aiService.prepareContext(conversation, signal, providerIds);
+    if (context.summary && context.summary !== conversation.summary) {
+      setConversations(prev => prev.map(c =>
+        c.id === conversation.id ? { ...c, summary: context.summary } : c
+      ));
+    }
+    return context;
+  };
+
+  // Edits never overwrite: the new text becomes a sibling branch, and an edited question is answered again
+  const handleEditMessage = async (messageId: string, newContent: string) => {
+    const conversation = conversations.find(c => c.id === currentConversationId);
+    const original = conversation?.messages.find(m => m.id === messageId);
+    if (!conversation || !original) return;
+
+    const edited: Message = {
+      id: generateId(),
+      content: newContent,
+      role: original.role,
+      timestamp: new Date(),
+      parentId: original.parentId,
+      model: original.model,
+      tutorMode: original.tutorMode,
+      attachments: original.attachments,
+    };
+    const updated = { ...appendMessage(conversation, edited), updatedAt: new Date() };
+
+    if (original.role === 'assistant') {
+      setConversations(prev => prev.map(conv => (conv.id === conversation.id ? updated : conv)));
+      return;
+    }
+    if (isChatLoading) return;
+    if (!hasApiKey) {
+      showNotification('Please set your API key in the settings first.', 'error');
+      return;
+    }
+
+    const releaseLock = await acquireConversationLock(conversation.id);
+    if (!releaseLock) {
+      showNotification('This conversation is already getting a reply in another tab.', 'error');
+      return;
+    }
+    try {
+      setConversations(prev => prev.map(conv => (conv.id === conversation.id ? updated : conv)));
+      await generateReply(updated, edited.id);
+    } finally {
+      releaseLock();
+    }
   };
 
   const handleRegenerateResponse = async (messageId: string) => {
     const conversation = conversations.find(c => c.id === currentConversationId);
     if (!conversation) return;
 
-    const messageIndex = conversation.messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1 || conversation.messages[messageIndex].role !== 'assistant') return;
+    const message = conversation.messages.find(m => m.id === messageId);
+    if (!message || message.role !== 'assistant') return;
 
-    const history = conversation.messages.slice(0, messageIndex);
-    if (history.length === 0 || history[history.length - 1].role !== 'user') {
+    const parent = conversation.messages.find(m => m.id === message.parentId);
+    if (!parent || parent.role !== 'user') {
       console.error("Cannot regenerate without a preceding user message.");
       showNotification('Cannot regenerate this message', 'error');
       return;
     }
-    const messagesForApi = history.map(m => ({ role: m.role, content: m.content }));
 
-    setConversations(prev => prev.map(conv => {
-      if (conv.id === currentConversationId) {
-        return { ...conv, messages: history, updatedAt: new Date() };
-      }
-      return conv;
-    }));
+    const releaseLock = await acquireConversationLock(conversation.id);
+    if (!releaseLock) {
+      showNotification('This conversation is already getting a reply in another tab.', 'error');
+      return;
+    }
+    try {
+      await generateReply(conversation, parent.id, conversation.activeLeafId);
+    } finally {
+      releaseLock();
+    }
+  };
 
-    setIsChatLoading(true);
-    abortControllerRef.current = new AbortController();
+  const handleSwitchBranch = (messageId: string, offset: number) => {
+    setConversations(prev => prev.map(conv =>
+      conv.id === currentConversationId ? switchBranch(conv, messageId, offset) : conv
+    ));
+  };
+  
+  // Resumes a reply whose stream stalled, appending the new text to the same message
+  const handleContinueResponse = async (messageId: string) => {
+    if (isChatLoading) return;
+    const conversation = conversations.find(c => c.id === currentConversationId);
+    if (!conversation) return;
 
-    try {
-      const assistantMessage: Message = { 
-        id: generateId(), 
-        content: '', 
-        role: 'assistant', 
-        timestamp: new Date(), 
-        model: settings.selectedModel 
+    const partialMessage = conversation.messages.find(m => m.id === messageId);
+    if (!partialMessage || partialMessage.role !== 'assistant') return;
+
+    const releaseLock = await acquireConversationLock(conversation.id);
+    if (!releaseLock) {
+      showNotification('This conversation is already getting a reply in another tab.', 'error');
+      return;
+    }
+
+    // Hide the partial reply while it streams on; it is updated in place when done
+    setConversations(prev => prev.map(conv =>
+      conv.id === conversation.id ? { ...conv, activeLeafId: partialMessage.parentId } : conv
+    ));
+
+    setIsChatLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const resumedMessage: Message = { ...partialMessage, stalled: false };
+    let fullResponse = partialMessage.content;
+    let usage = partialMessage.usage;
+    // The continuation is billed on top of the original partial reply
+    const addUsage = (reported: TokenUsage) => {
+      usage = {
+        promptTokens: (usage?.promptTokens || 0) + reported.promptTokens,
+        completionTokens: (usage?.completionTokens || 0) + reported.completionTokens,
+        estimated: usage?.estimated || reported.estimated,
       };
-      setStreamingMessage(assistantMessage);
+    };
+    const finish = (message: Message) => {
+      setConversations(prev => prev.map(conv =>
+        conv.id === conversation.id
+          ? {
+              ...conv,
+              messages: conv.messages.map(m => (m.id === message.id ? message : m)),
+              activeLeafId: message.id,
+              updatedAt: new Date(),
+            }
+          : conv
+      ));
+    };
 
-      let fullResponse = '';
-      for await (const chunk of aiService.generateStreamingResponse(messagesForApi)) {
-        if (abortControllerRef.current?.signal.aborted) break;
+    try {
+      setStreamingMessage(resumedMessage);
+      const context = await prepareContext(
+        withActivePath({ ...conversation, activeLeafId: messageId }),
+        abortController.signal
+      );
+      const messagesForApi = [
+        ...context.messages,
+        { role: 'user', content: 'Continue your previous answer exactly where it stopped. Do not repeat anything you already wrote.' },
+      ];
+      for await (const chunk of aiService.generateStreamingResponse(messagesForApi, {
+        onUsage: addUsage,
+        signal: abortController.signal,
+        summary: context.summary?.text,
+      })) {
         fullResponse += chunk;
         setStreamingMessage(prev => prev ? { ...prev, content: fullResponse } : null);
       }
-
-      const finalAssistantMessage: Message = { ...assistantMessage, content: fullResponse };
-      
-      setConversations(prev => prev.map(conv => 
-        conv.id === currentConversationId 
-          ? { ...conv, messages: [...history, finalAssistantMessage], updatedAt: new Date() } 
-          : conv
-      ));
+      finish({ ...resumedMessage, content: fullResponse, usage });
     } catch (error) {
-      if (!abortControllerRef.current?.signal.aborted) {
-        console.error('Error regenerating response:', error);
+      const stalledAgain = error instanceof ProviderError && error.kind === 'stalled';
+      finish({ ...resumedMessage, content: fullResponse, usage, stalled: !abortController.signal.aborted });
+      if (!abortController.signal.aborted) {
+        console.error('Error continuing response:', error);
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        showNotification(`Failed to regenerate: ${errorMsg}`, 'error');
-        
-        const errorMessage: Message = { 
-          id: generateId(), 
-          content: `Sorry, an error occurred while regenerating. Error: ${errorMsg}`, 
-          role: 'assistant', 
-          timestamp: new Date() 
-        };
-        setConversations(prev => prev.map(conv => 
-          conv.id === currentConversationId 
-            ? { ...conv, messages: [...history, errorMessage] } 
-            : conv
-        ));
+        showNotification(stalledAgain ? 'The response stalled again.' : `Failed to continue: ${errorMsg}`, 'error');
       }
     } finally {
       setStreamingMessage(null);
       setIsChatLoading(false);
       abortControllerRef.current = null;
+      releaseLock();
     }
   };
-  
+
   const sortedConversations = useMemo(() => [...conversations].sort((a, b) => {
     if (a.isPinned && !b.isPinned) return -1;
     if (!a.isPinned && b.isPinned) return 1;
@@ -446,6 +925,9 @@ function App() {
   }), [conversations]);
 
   const handleDeleteConversation = (id: string) => {
+    cancelBackgroundRequests(id);
+    const deleted = conversations.find(c => c.id === id);
+    if (deleted) deleteAttachments(collectAttachments([deleted]));
     const remaining = conversations.filter(c => c.id !== id);
     setConversations(remaining);
     if (currentConversationId === id) {
@@ -471,6 +953,7 @@ function App() {
   };
 
   const handleDeleteNote = (id: string) => {
+    cancelBackgroundRequests(id);
     setNotes(prev => prev.filter(n => n.id !== id));
     if(currentNoteId === id) {
       setCurrentNoteId(null);
@@ -478,42 +961,95 @@ function App() {
     }
   };
 
-  const handleGenerateQuiz = async () => {
-    const conversation = conversations.find(c => c.id === currentConversationId);
-    if (!conversation) return;
+  const handleQuizComplete = (session: StudySession) => {
+    setStudySessions(prev => [session, ...prev.filter(s => s.id !== session.id)]);
+  };
+
+  const handleDeleteStudySession = (id: string) => {
+    setStudySessions(prev => prev.filter(s => s.id !== id));
+    if (currentStudySessionId === id) setCurrentStudySessionId(null);
+  };
 
+  const handleGenerateQuiz = async (source: QuizSource, options: QuizOptions) => {
+    const abortController = new AbortController();
+    quizAbortRef.current = abortController;
+    setQuizOptions(options);
     setIsQuizLoading(true);
     try {
-      const session = await aiService.generateQuiz(conversation);
-      setStudySession(session);
+      const material = resolveQuizSource(source, { conversations, notes, flowcharts });
+      const session = await aiService.generateQuiz(material, options, abortController.signal);
+      setStudySession(options.timeLimitMinutes ? { ...session, exam: { timeLimitSeconds: options.timeLimitMinutes * 60 } } : session);
+      setIsQuizBuilderOpen(false);
       setIsQuizModalOpen(true);
       showNotification('Quiz generated successfully!', 'success');
     } catch (error) {
+      if (abortController.signal.aborted) return;
       console.error(error);
       const errorMsg = error instanceof Error ? error.message : 'Failed to generate quiz';
       showNotification(errorMsg, 'error');
     } finally {
       setIsQuizLoading(false);
+      if (quizAbortRef.current === abortController) quizAbortRef.current = null;
     }
   };
 
+  const handleCloseQuizBuilder = () => {
+    quizAbortRef.current?.abort();
+    setIsQuizBuilderOpen(false);
+  };
+
+  // --- FLASHCARD HANDLERS ---
+  const handleGenerateFlashcards = async (source: Conversation | Note) => {
+    const abortController = startBackgroundRequest(source.id);
+    setIsFlashcardLoading(true);
+    try {
+      const deck = await aiService.generateFlashcards('messages' in source ? withActivePath(source) : source, abortController.signal);
+      setDecks(prev => [deck, ...prev]);
+      showNotification(`Created ${deck.cards.length} flashcards. Find them under Study.`, 'success');
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      console.error(error);
+      const errorMsg = error instanceof Error ? error.message : 'Failed to generate flashcards';
+      showNotification(errorMsg, 'error');
+    } finally {
+      setIsFlashcardLoading(false);
+      endBackgroundRequest(abortController);
+    }
+  };
+
+  const handleReviewCard = (deckId: string, card: Flashcard) => {
+    setDecks(prev => prev.map(deck =>
+      deck.id === deckId
+        ? { ...deck, cards: deck.cards.map(c => (c.id === card.id ? card : c)), updatedAt: new Date() }
+        : deck
+    ));
+  };
+
+  const handleDeleteDeck = (id: string) => {
+    setDecks(prev => prev.filter(d => d.id !== id));
+    if (currentDeckId === id) setCurrentDeckId(null);
+  };
+
   // --- FLOWCHART HANDLERS ---
   const handleGenerateFlowchart = async () => {
     const conversation = conversations.find(c => c.id === currentConversationId);
     if (!conversation) return;
 
+    const abortController = startBackgroundRequest(conversation.id);
     setIsFlowchartLoading(true);
     try {
-      const flowchart = await generateFlowchartFromConversation(conversation);
+      const flowchart = await generateFlowchartFromConversation(withActivePath(conversation), abortController.signal);
       setFlowcharts(prev => [flowchart, ...prev]);
       handleSelectFlowchart(flowchart.id);
       showNotification('Flowchart generated successfully!', 'success');
     } catch (error) {
+      if (abortController.signal.aborted) return;
       console.error(error);
       const errorMsg = error instanceof Error ? error.message : 'Failed to generate flowchart';
       showNotification(errorMsg, 'error');
     } finally {
       setIsFlowchartLoading(false);
+      endBackgroundRequest(abortController);
     }
   };
 
@@ -621,7 +1157,7 @@ function App() {
     const conversation = conversations.find(c => c.id === currentConversationId);
     if (conversation && conversation.messages.length > 0) {
       // Find the last assistant message
-      const lastAssistantMessage = [...conversation.messages].reverse().find(m => m.role === 'assistant');
+      const lastAssistantMessage = getActivePath(conversation).reverse().find(m => m.role === 'assistant');
       
       if (lastAssistantMessage) {
         // Wait a bit for the mode to update
@@ -638,12 +1174,18 @@ function App() {
   };
   
   // --- OTHER HANDLERS ---
-  const handleModelChange = (model: 'google' | 'zhipu' | 'mistral-small' | 'mistral-codestral') => {
+  const handleModelChange = (model: string) => {
     const newSettings = { ...settings, selectedModel: model };
     setSettings(newSettings);
     storageUtils.saveSettings(newSettings);
   };
 
+  const handleUseLibraryChange = (useLibrary: boolean) => {
+    const newSettings = { ...settings, useLibrary };
+    setSettings(newSettings);
+    storageUtils.saveSettings(newSettings);
+  };
+
   const handleTutorModeChange = (mode: TutorMode) => {
     const newSettings = { ...settings, selectedTutorMode: mode };
     setSettings(newSettings);
@@ -662,6 +1204,67 @@ function App() {
     ));
   };
 
+  const handleRestoreBackup = (data: BackupData) => {
+    setConversations(data.conversations);
+    setNotes(data.notes);
+    setFlowcharts(data.flowcharts);
+    setStudySessions(data.studySessions);
+    setDecks(data.decks);
+    restoreLibrary(data.documents)
+      .catch(error => {
+        console.error('Error restoring library documents:', error);
+        showNotification('The library documents could not be restored.', 'error');
+      })
+      .finally(reloadDocuments);
+    if (data.settings !== settings) {
+      setSettings(data.settings);
+      storageUtils.saveSettings(data.settings);
+    }
+
+    // Drop selections that no longer exist after a replace
+    if (currentConversationId && !data.conversations.some(c => c.id === currentConversationId)) {
+      setCurrentConversationId(data.conversations[0]?.id ?? null);
+    }
+    if (currentNoteId && !data.notes.some(n => n.id === currentNoteId)) {
+      setCurrentNoteId(null);
+    }
+    if (currentFlowchartId && !data.flowcharts.some(f => f.id === currentFlowchartId)) {
+      setCurrentFlowchartId(null);
+    }
+    if (currentStudySessionId && !data.studySessions.some(s => s.id === currentStudySessionId)) {
+      setCurrentStudySessionId(null);
+    }
+    if (currentDeckId && !data.decks.some(d => d.id === currentDeckId)) {
+      setCurrentDeckId(null);
+    }
+
+    setSettingsOpen(false);
+    showNotification('Backup restored.', 'success');
+  };
+
+  const handleUnlockVault = async (passphrase: string) => {
+    setSettings(await storageUtils.unlockVault(passphrase));
+    setVaultState(storageUtils.getVaultState());
+  };
+
+  const handleResetVault = async () => {
+    setSettings(await storageUtils.resetVault());
+    setVaultState(storageUtils.getVaultState());
+    showNotification('API keys were removed. Enter them again in Settings.', 'success');
+  };
+
+  const handleEnableVault = async (passphrase: string) => {
+    await storageUtils.enableVault(passphrase);
+    setVaultState(storageUtils.getVaultState());
+    showNotification('API keys are now encrypted.', 'success');
+  };
+
+  const handleDisableVault = async () => {
+    await storageUtils.disableVault();
+    setVaultState(storageUtils.getVaultState());
+    showNotification('Passphrase removed. API keys are stored unencrypted.', 'success');
+  };
+
   const handleSaveSettings = (newSettings: APISettings) => {
     const oldMode = settings.selectedTutorMode;
     const newMode = newSettings.selectedTutorMode;
@@ -682,7 +1285,7 @@ function App() {
 
       const conversation = conversations.find(c => c.id === currentConversationId);
       if (conversation && conversation.messages.length > 0) {
-        const lastAssistantMessage = [...conversation.messages].reverse().find(
+        const lastAssistantMessage = getActivePath(conversation).reverse().find(
           (msg) => msg.role === 'assistant'
         );
         
@@ -703,9 +1306,11 @@ function App() {
     }
   };
 
+  // Stops the reply and anything else being generated for the open conversation
   const handleStopGenerating = () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
+    const cancelled = currentConversationId ? cancelBackgroundRequests(currentConversationId) : 0;
+    if (abortControllerRef.current || cancelled > 0) {
+      abortControllerRef.current?.abort();
       showNotification('Generation stopped', 'success');
     }
   };
@@ -722,6 +1327,20 @@ function App() {
     [flowcharts]
   );
 
+  const sortedStudySessions = useMemo(() =>
+    [...studySessions].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+    [studySessions]
+  );
+
+  const sortedDecks = useMemo(() =>
+    [...decks].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    [decks]
+  );
+
+  if (vaultState === 'locked') {
+    return <LockScreen onUnlock={handleUnlockVault} onReset={handleResetVault} />;
+  }
+
   return (
     <div className="app-container">
       {/* Notification */}
@@ -740,21 +1359,33 @@ function App() {
         conversations={sortedConversations}
         notes={sortedNotes}
         flowcharts={sortedFlowcharts}
+        studySessions={sortedStudySessions}
+        decks={sortedDecks}
         activeView={activeView}
         currentConversationId={currentConversationId}
         currentNoteId={currentNoteId}
         currentFlowchartId={currentFlowchartId}
+        currentStudySessionId={currentStudySessionId}
+        currentDeckId={currentDeckId}
         onNewConversation={handleNewConversation}
         onSelectConversation={handleSelectConversation}
         onSelectNote={handleSelectNote}
         onSelectFlowchart={handleSelectFlowchart}
+        onSelectStudySession={handleSelectStudySession}
+        onSelectDeck={handleSelectDeck}
+        onStartReview={() => setReviewQueue(getDueCards(decks))}
         onDeleteConversation={handleDeleteConversation}
         onRenameConversation={handleRenameConversation}
         onTogglePinConversation={handleTogglePinConversation}
         onDeleteNote={handleDeleteNote}
         onDeleteFlowchart={handleDeleteFlowchart}
+        onDeleteStudySession={handleDeleteStudySession}
+        onDeleteDeck={handleDeleteDeck}
         onOpenSettings={() => setSettingsOpen(true)}
+        onOpenLibrary={() => setLibraryOpen(true)}
+        onOpenSearchResult={handleOpenSearchResult}
         settings={settings}
+        providers={providers}
         onModelChange={handleModelChange}
         onCloseSidebar={() => setSidebarOpen(false)}
         isFolded={sidebarFolded}
@@ -791,19 +1422,40 @@ function App() {
               onNewConversation={handleNewConversation}
               isLoading={isChatLoading}
               isQuizLoading={isQuizLoading}
+              isFlashcardLoading={isFlashcardLoading}
               isFlowchartLoading={isFlowchartLoading}
               streamingMessage={streamingMessage}
               hasApiKey={hasApiKey}
+              supportsImages={!!getProvider(settings.selectedModel, settings)?.capabilities.vision}
+              prices={settings.prices}
+              providers={providers}
               onStopGenerating={handleStopGenerating}
               onSaveAsNote={handleSaveAsNote}
-              onGenerateQuiz={handleGenerateQuiz}
+              onGenerateQuiz={() => setIsQuizBuilderOpen(true)}
+              canQuizOtherSources={notes.length > 0 || flowcharts.length > 0}
+              onGenerateFlashcards={() => currentConversation && handleGenerateFlashcards(currentConversation)}
               onGenerateFlowchart={handleGenerateFlowchart}
               onEditMessage={handleEditMessage}
               onRegenerateResponse={handleRegenerateResponse}
+              onContinueResponse={handleContinueResponse}
+              onSwitchBranch={handleSwitchBranch}
+              focusTarget={focusTarget}
+              compareProviders={compareProviders}
+              compareModels={compareModels}
+              onCompareModelsChange={setCompareModels}
+              comparison={comparison}
+              onKeepComparisonAnswer={handleKeepComparisonAnswer}
+              onDiscardComparison={handleDiscardComparison}
+              useLibrary={libraryActive}
+              onToggleLibrary={documents.length > 0 ? () => handleUseLibraryChange(!settings.useLibrary) : undefined}
             />
           </>
         ) : activeView === 'note' ? (
-          <NoteView note={currentNote} />
+          <NoteView note={currentNote} onGenerateFlashcards={handleGenerateFlashcards} isFlashcardLoading={isFlashcardLoading} />
+        ) : activeView === 'study' ? (
+          currentDeck
+            ? <DeckView deck={currentDeck} onReview={deck => setReviewQueue(getDueCards([deck]))} />
+            : <QuizHistoryView sessions={sortedStudySessions} session={currentStudySession} />
         ) : (
           <FlowchartView 
             flowchart={currentFlowchart}
@@ -812,16 +1464,54 @@ function App() {
           />
         )}
       </div>
+      <LibraryModal
+        isOpen={libraryOpen}
+        onClose={() => setLibraryOpen(false)}
+        documents={documents}
+        onDocumentsChange={reloadDocuments}
+        useLibrary={settings.useLibrary}
+        onUseLibraryChange={handleUseLibraryChange}
+      />
       <SettingsModal 
         isOpen={settingsOpen} 
         onClose={() => setSettingsOpen(false)} 
         settings={settings} 
         onSaveSettings={handleSaveSettings}
+        conversations={conversations}
+        notes={notes}
+        flowcharts={flowcharts}
+        studySessions={studySessions}
+        decks={decks}
+        documents={documents}
+        providers={providers}
+        onRestoreBackup={handleRestoreBackup}
+        vaultState={vaultState}
+        onEnableVault={handleEnableVault}
+        onDisableVault={handleDisableVault}
+        onLockVault={handleLockVault}
+      />
+      <QuizBuilderModal
+        isOpen={isQuizBuilderOpen}
+        onClose={handleCloseQuizBuilder}
+        conversation={currentConversation}
+        notes={sortedNotes}
+        flowcharts={sortedFlowcharts}
+        initialOptions={quizOptions}
+        isGenerating={isQuizLoading}
+        onGenerate={handleGenerateQuiz}
       />
       <QuizModal 
         isOpen={isQuizModalOpen} 
         onClose={() => setIsQuizModalOpen(false)} 
         session={studySession} 
+        onComplete={handleQuizComplete}
+        onGradeShortAnswer={(question, answer, signal) => aiService.gradeShortAnswer(question, answer, signal)}
+      />
+      <FlashcardReviewModal
+        isOpen={reviewQueue !== null}
+        onClose={() => setReviewQueue(null)}
+        cards={reviewQueue || []}
+        onReview={handleReviewCard}
       />
       {isInstallable && !isInstalled && ( 
         <InstallPrompt onInstall={handleInstallApp} onDismiss={dismissInstallPrompt} /> 
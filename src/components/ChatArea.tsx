@@ -1,25 +1,46 @@
 // src/components/ChatArea.tsx
 
-import React, { useEffect, useRef, useCallback, useMemo } from 'react';
+import React, { useEffect, useRef, useCallback, useMemo, useState } from 'react';
 import { MessageBubble } from './MessageBubble';
 import { ChatInput } from './ChatInput';
-import { Conversation, Message } from '../types';
+import { ComparisonView } from './ComparisonView';
+import { Attachment, Comparison, Conversation, Message, ModelPrice } from '../types';
+import { ProviderDefinition } from '../services/providers';
+import { formatCost, formatTokenCount, summarizeConversationUsage } from '../services/tokenUsage';
+import { getActivePath, getBranchPosition } from '../utils/conversationTree';
 
 interface ChatAreaProps {
   conversation: Conversation | undefined;
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, attachments: Attachment[]) => Promise<boolean>;
   onNewConversation: () => void;
   isLoading: boolean;
   isQuizLoading: boolean;
+  isFlashcardLoading: boolean;
   isFlowchartLoading: boolean;
   streamingMessage?: Message | null;
   hasApiKey: boolean;
+  supportsImages: boolean;
+  providers: ProviderDefinition[];
+  prices: Record<string, ModelPrice>;
   onStopGenerating: () => void;
   onSaveAsNote: (content: string) => void;
   onGenerateQuiz: () => void;
+  canQuizOtherSources: boolean; // notes or flowcharts exist, so the quiz builder has something without this chat
+  onGenerateFlashcards: () => void;
   onGenerateFlowchart: () => void;
   onEditMessage?: (messageId: string, newContent: string) => void;
   onRegenerateResponse?: (messageId: string) => void;
+  onContinueResponse?: (messageId: string) => void;
+  onSwitchBranch?: (messageId: string, offset: number) => void;
+  compareProviders: ProviderDefinition[]; // configured providers that can join a comparison
+  compareModels: string[];
+  onCompareModelsChange: (modelIds: string[]) => void;
+  comparison: Comparison | null;
+  onKeepComparisonAnswer: (messageId: string) => void;
+  onDiscardComparison: () => void;
+  useLibrary: boolean;
+  onToggleLibrary?: () => void;
+  focusTarget?: { messageId: string; nonce: number } | null; // message to scroll to, e.g. a search hit
 }
 
 export function ChatArea({
@@ -28,22 +49,55 @@ export function ChatArea({
   onNewConversation,
   isLoading,
   isQuizLoading,
+  isFlashcardLoading,
   isFlowchartLoading,
   streamingMessage,
   hasApiKey,
+  supportsImages,
+  providers,
+  prices,
   onStopGenerating,
   onSaveAsNote,
   onGenerateQuiz,
+  canQuizOtherSources,
+  onGenerateFlashcards,
   onGenerateFlowchart,
   onEditMessage,
   onRegenerateResponse,
+  onContinueResponse,
+  onSwitchBranch,
+  compareProviders,
+  compareModels,
+  onCompareModelsChange,
+  comparison,
+  onKeepComparisonAnswer,
+  onDiscardComparison,
+  useLibrary,
+  onToggleLibrary,
+  focusTarget,
 }: ChatAreaProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatMessagesRef = useRef<HTMLDivElement>(null);
+  const [showComparePicker, setShowComparePicker] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Set while scrolling to a focused message so the scroll to the bottom doesn't undo it
+  const pendingFocusRef = useRef(false);
+
+  const activeComparison = comparison && comparison.conversationId === conversation?.id ? comparison : null;
+  const isComparing = compareModels.length >= 2;
+
+  const toggleCompareModel = (modelId: string) => {
+    onCompareModelsChange(
+      compareModels.includes(modelId) ? compareModels.filter(id => id !== modelId) : [...compareModels, modelId]
+    );
+  };
+
+  // Only the branch being viewed is shown; other versions are reached through each message's arrows
+  const activePath = useMemo(() => (conversation ? getActivePath(conversation) : []), [conversation]);
 
   const allMessages = useMemo(() =>
-    streamingMessage ? [...(conversation?.messages || []), streamingMessage] : conversation?.messages || [],
-    [conversation?.messages, streamingMessage]
+    streamingMessage ? [...activePath, streamingMessage] : activePath,
+    [activePath, streamingMessage]
   );
 
   const scrollToBottom = useCallback(() => {
@@ -51,12 +105,38 @@ export function ChatArea({
   }, []);
 
   useEffect(() => {
+    if (!focusTarget) return;
+    pendingFocusRef.current = true;
+    let clearHighlight: ReturnType<typeof setTimeout> | undefined;
+    const timeoutId = setTimeout(() => {
+      pendingFocusRef.current = false;
+      const element = document.getElementById(`message-${focusTarget.messageId}`);
+      if (!element) return;
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedId(focusTarget.messageId);
+      clearHighlight = setTimeout(() => setHighlightedId(null), 2000);
+    }, 100);
+    return () => {
+      pendingFocusRef.current = false;
+      clearTimeout(timeoutId);
+      clearTimeout(clearHighlight);
+    };
+  }, [focusTarget]);
+
+  useEffect(() => {
+    if (pendingFocusRef.current) return;
     const timeoutId = setTimeout(scrollToBottom, 100);
     return () => clearTimeout(timeoutId);
-  }, [allMessages.length, streamingMessage?.content, scrollToBottom]);
+  }, [allMessages.length, streamingMessage?.content, activeComparison, scrollToBottom]);
+
+  const usage = useMemo(
+    () => (conversation ? summarizeConversationUsage(conversation, prices) : null),
+    [conversation, prices]
+  );
 
-  const canGenerateQuiz = conversation && conversation.messages.length > 2;
-  const canGenerateFlowchart = conversation && conversation.messages.length > 1;
+  const hasStudyMaterial = !!conversation && activePath.length > 2;
+  const canGenerateQuiz = hasStudyMaterial || canQuizOtherSources;
+  const canGenerateFlowchart = conversation && activePath.length > 1;
 
   // State 1: No conversation is selected at all. Show the main welcome screen.
   if (!conversation) {
@@ -121,7 +201,7 @@ export function ChatArea({
                 </div>
                 <div className="flex items-start gap-2">
                   <span className="text-[var(--color-text-primary)] mt-0.5">•</span>
-                  <p><strong className="text-[var(--color-text-primary)]">Multiple AI Models:</strong> Gemma, ZhipuAI, Mistral, Codestral</p>
+                  <p><strong className="text-[var(--color-text-primary)]">Multiple AI Models:</strong> {providers.map(p => p.name).join(', ')}</p>
                 </div>
                 <div className="flex items-start gap-2">
                   <span className="text-[var(--color-text-primary)] mt-0.5">•</span>
@@ -184,15 +264,39 @@ export function ChatArea({
             // State 2b: The conversation has messages.
             <div className="space-y-4 sm:space-y-6 py-4 sm:py-6">
               {allMessages.map((message) => (
-                <MessageBubble
+                <div
                   key={message.id}
-                  message={message}
-                  isStreaming={streamingMessage?.id === message.id}
-                  onSaveAsNote={onSaveAsNote}
-                  onEditMessage={onEditMessage}
-                  onRegenerateResponse={onRegenerateResponse}
-                />
+                  id={`message-${message.id}`}
+                  className={`rounded-lg transition-shadow duration-500 ${highlightedId === message.id ? 'ring-2 ring-yellow-400/40' : ''}`}
+                >
+                  <MessageBubble
+                    message={message}
+                    modelName={providers.find(p => p.id === message.model)?.shortName}
+                    isStreaming={streamingMessage?.id === message.id}
+                    onSaveAsNote={onSaveAsNote}
+                    onEditMessage={onEditMessage}
+                    onRegenerateResponse={onRegenerateResponse}
+                    onContinueResponse={onContinueResponse}
+                    branch={streamingMessage?.id === message.id ? undefined : getBranchPosition(conversation, message)}
+                    onSwitchBranch={isLoading ? undefined : onSwitchBranch}
+                  />
+                </div>
               ))}
+              {activeComparison && (
+                <ComparisonView
+                  comparison={activeComparison}
+                  providers={providers}
+                  isStreaming={isLoading}
+                  onKeep={onKeepComparisonAnswer}
+                  onDiscard={onDiscardComparison}
+                />
+              )}
+              {usage && usage.promptTokens + usage.completionTokens > 0 && (
+                <p className="text-center text-xs text-[var(--color-text-secondary)]">
+                  {usage.estimated ? '~' : ''}{formatTokenCount(usage.promptTokens + usage.completionTokens)} tokens in this conversation
+                  {usage.cost > 0 && ` · ${formatCost(usage.cost)}`}
+                </p>
+              )}
             </div>
           )}
           <div ref={messagesEndRef} className="h-1 flex-shrink-0" />
@@ -200,17 +304,53 @@ export function ChatArea({
       </div>
 
       <div className="chat-input-container mobile-chat-area">
+        {showComparePicker && (
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+            <span className="text-[var(--color-text-secondary)]">Compare:</span>
+            {compareProviders.map(provider => (
+              <label
+                key={provider.id}
+                className={`flex items-center gap-1.5 px-2 py-1 rounded-md border cursor-pointer transition-colors ${
+                  compareModels.includes(provider.id)
+                    ? 'border-[var(--color-text-secondary)] text-[var(--color-text-primary)]'
+                    : 'border-[var(--color-border)] text-[var(--color-text-secondary)]'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={compareModels.includes(provider.id)}
+                  onChange={() => toggleCompareModel(provider.id)}
+                />
+                {provider.shortName}
+              </label>
+            ))}
+            <span className="text-[var(--color-text-placeholder)]">
+              {compareProviders.length < 2
+                ? 'Configure at least two models to compare.'
+                : isComparing ? `${compareModels.length} models will answer` : 'Pick two or more'}
+            </span>
+          </div>
+        )}
         <ChatInput
           onSendMessage={onSendMessage}
           isLoading={isLoading}
           isQuizLoading={isQuizLoading}
+          isFlashcardLoading={isFlashcardLoading}
           isFlowchartLoading={isFlowchartLoading}
-          disabled={!hasApiKey}
+          disabled={!hasApiKey || !!activeComparison}
+          disabledPlaceholder={activeComparison ? 'Keep or discard the compared answers first...' : undefined}
+          isComparing={isComparing}
+          onToggleCompare={() => setShowComparePicker(open => !open)}
+          useLibrary={useLibrary}
+          onToggleLibrary={onToggleLibrary}
           onStopGenerating={onStopGenerating}
           onGenerateQuiz={onGenerateQuiz}
+          onGenerateFlashcards={onGenerateFlashcards}
           onGenerateFlowchart={onGenerateFlowchart}
-          canGenerateQuiz={!!canGenerateQuiz}
+          canGenerateQuiz={canGenerateQuiz}
+          canGenerateFlashcards={hasStudyMaterial}
           canGenerateFlowchart={!!canGenerateFlowchart}
+          supportsImages={supportsImages}
         />
       </div>
     </div>
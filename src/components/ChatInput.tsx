@@ -1,45 +1,82 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, PlusCircle, Square, ClipboardCheck, GitBranch, Loader2 } from 'lucide-react';
+import { Send, PlusCircle, Square, ClipboardCheck, Layers, GitBranch, Loader2, Columns, FileText, X, Library } from 'lucide-react';
+import { Attachment } from '../types';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS,
+  createAttachment,
+  deleteAttachments,
+  isAttachmentFile,
+  isImageAttachment,
+} from '../utils/attachments';
 
 interface ChatInputProps {
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, attachments: Attachment[]) => Promise<boolean>;
   isLoading: boolean;
   isQuizLoading: boolean;
+  isFlashcardLoading: boolean;
   isFlowchartLoading: boolean;
   disabled?: boolean;
+  disabledPlaceholder?: string;
+  isComparing?: boolean;
+  onToggleCompare?: () => void;
+  useLibrary?: boolean;
+  onToggleLibrary?: () => void; // shown only when the library has documents
   onStopGenerating: () => void;
   onGenerateQuiz: () => void;
+  onGenerateFlashcards: () => void;
   onGenerateFlowchart: () => void;
   canGenerateQuiz: boolean;
+  canGenerateFlashcards: boolean;
   canGenerateFlowchart: boolean;
+  supportsImages: boolean; // whether the selected model can see attached images
 }
 
 export function ChatInput({
   onSendMessage,
   isLoading,
   isQuizLoading,
+  isFlashcardLoading,
   isFlowchartLoading,
   disabled = false,
+  disabledPlaceholder = 'Configure API keys first...',
+  isComparing = false,
+  onToggleCompare,
+  useLibrary = false,
+  onToggleLibrary,
   onStopGenerating,
   onGenerateQuiz,
+  onGenerateFlashcards,
   onGenerateFlowchart,
   canGenerateQuiz,
-  canGenerateFlowchart
+  canGenerateFlashcards,
+  canGenerateFlowchart,
+  supportsImages
 }: ChatInputProps) {
   const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [attachError, setAttachError] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleSubmit = useCallback((e: React.FormEvent) => {
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
-    if (input.trim() && !isLoading && !disabled) {
-      onSendMessage(input.trim());
+    if ((input.trim() || attachments.length > 0) && !isLoading && !disabled && !isAttaching && !isSending) {
+      // The draft is only cleared once the message is accepted, so a refused send keeps it
+      setIsSending(true);
+      const sent = await onSendMessage(input.trim(), attachments);
+      setIsSending(false);
+      if (!sent) return;
       setInput('');
+      setAttachments([]);
+      setAttachError('');
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
       }
     }
-  }, [input, isLoading, disabled, onSendMessage]);
+  }, [input, attachments, isLoading, disabled, isAttaching, isSending, onSendMessage]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -60,24 +97,52 @@ export function ChatInput({
     resizeTextarea();
   }, [input, resizeTextarea]);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      setInput(prev => `${prev}${prev ? '\n' : ''}${text}`);
-      setTimeout(() => textareaRef.current?.focus(), 0);
-    };
-    reader.readAsText(file);
+  // Images and PDFs become attachments; any other file is pasted into the input as text
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
     event.target.value = ''; // Reset file input
+    setAttachError('');
+
+    for (const file of files.filter(f => !isAttachmentFile(f))) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const text = e.target?.result as string;
+        setInput(prev => `${prev}${prev ? '\n' : ''}${text}`);
+        setTimeout(() => textareaRef.current?.focus(), 0);
+      };
+      reader.readAsText(file);
+    }
+
+    const toAttach = files.filter(isAttachmentFile).slice(0, MAX_ATTACHMENTS - attachments.length);
+    if (toAttach.length < files.filter(isAttachmentFile).length) {
+      setAttachError(`Up to ${MAX_ATTACHMENTS} files can be attached to one message.`);
+    }
+    if (toAttach.length === 0) return;
+
+    setIsAttaching(true);
+    for (const file of toAttach) {
+      try {
+        const attachment = await createAttachment(file);
+        setAttachments(prev => [...prev, attachment]);
+      } catch (error) {
+        setAttachError(error instanceof Error ? error.message : `${file.name} could not be attached.`);
+      }
+    }
+    setIsAttaching(false);
+    textareaRef.current?.focus();
+  };
+
+  const handleRemoveAttachment = (attachment: Attachment) => {
+    setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    deleteAttachments([attachment]);
   };
 
   const handlePlusClick = () => {
     fileInputRef.current?.click();
   };
 
-  const canSend = input.trim() && !disabled;
+  const canSend = (input.trim() || attachments.length > 0) && !disabled && !isAttaching && !isSending;
+  const hasImages = attachments.some(isImageAttachment);
 
   return (
     <div className="chat-input">
@@ -96,6 +161,46 @@ export function ChatInput({
         </div>
       )}
 
+      {/* Pending attachments */}
+      {(attachments.length > 0 || isAttaching || attachError) && (
+        <div className="mb-2 space-y-1.5">
+          <div className="flex flex-wrap gap-2">
+            {attachments.map(attachment => (
+              <div
+                key={attachment.id}
+                className="relative flex items-center gap-2 pr-7 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg overflow-hidden max-w-[220px]"
+              >
+                {attachment.thumbnail ? (
+                  <img src={attachment.thumbnail} alt={attachment.name} className="w-10 h-10 object-cover flex-shrink-0" />
+                ) : (
+                  <div className="w-10 h-10 flex items-center justify-center flex-shrink-0 bg-[var(--color-bg)]">
+                    <FileText className="w-4 h-4 text-[var(--color-text-secondary)]" />
+                  </div>
+                )}
+                <span className="text-xs truncate text-[var(--color-text-secondary)]">{attachment.name}</span>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveAttachment(attachment)}
+                  className="absolute top-1 right-1 p-0.5 rounded text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-border)]"
+                  title="Remove attachment"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {isAttaching && (
+              <div className="flex items-center gap-2 px-3 h-10 text-xs text-[var(--color-text-secondary)] bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" /> Preparing file...
+              </div>
+            )}
+          </div>
+          {hasImages && !supportsImages && (
+            <p className="text-xs text-yellow-500">The selected model cannot see images; it only gets their file names.</p>
+          )}
+          {attachError && <p className="text-xs text-red-400">{attachError}</p>}
+        </div>
+      )}
+
       {/* Input form */}
       <form onSubmit={handleSubmit} className="chat-input-form">
         {/* File attach button */}
@@ -103,7 +208,7 @@ export function ChatInput({
           type="button"
           onClick={handlePlusClick}
           className="interactive-button flex-shrink-0 p-2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors touch-target"
-          title={'Attach file content'}
+          title={'Attach images, PDFs or text files'}
         >
           <PlusCircle className="w-5 h-5" />
         </button>
@@ -113,7 +218,8 @@ export function ChatInput({
           type="file"
           ref={fileInputRef}
           onChange={handleFileChange}
-          accept=".txt,.md,.js,.ts,.jsx,.tsx,.py,.html,.css,.json"
+          accept={`.txt,.md,.js,.ts,.jsx,.tsx,.py,.html,.css,.json,${ATTACHMENT_ACCEPT}`}
+          multiple
           className="hidden"
         />
 
@@ -125,8 +231,10 @@ export function ChatInput({
           onKeyDown={handleKeyDown}
           placeholder={
             disabled
-              ? 'Configure API keys first...'
-              : 'Ask anything...'
+              ? disabledPlaceholder
+              : isComparing
+                ? 'Ask several models at once...'
+                : 'Ask anything...'
           }
           disabled={disabled || isLoading}
           className="chat-input-textarea"
@@ -136,6 +244,39 @@ export function ChatInput({
 
         {/* Action buttons */}
         <div className="chat-input-buttons">
+          {/* Library button */}
+          {onToggleLibrary && (
+            <button
+              type="button"
+              onClick={onToggleLibrary}
+              className={`interactive-button w-9 h-9 flex items-center justify-center rounded-lg transition-all duration-200 ${
+                useLibrary
+                  ? 'bg-[var(--color-border)] text-[var(--color-text-primary)]'
+                  : 'bg-transparent text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-border)]'
+              }`}
+              title={useLibrary ? 'Answering from your documents' : 'Answer from your documents'}
+            >
+              <Library className="w-4 h-4" />
+            </button>
+          )}
+
+          {/* Compare button */}
+          {onToggleCompare && (
+            <button
+              type="button"
+              onClick={onToggleCompare}
+              disabled={isLoading}
+              className={`interactive-button w-9 h-9 flex items-center justify-center rounded-lg transition-all duration-200 ${
+                isComparing
+                  ? 'bg-[var(--color-border)] text-[var(--color-text-primary)]'
+                  : 'bg-transparent text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-border)]'
+              } disabled:opacity-50 disabled:cursor-not-allowed`}
+              title={'Compare models'}
+            >
+              <Columns className="w-4 h-4" />
+            </button>
+          )}
+
           {/* Quiz button */}
           <button
             type="button"
@@ -146,7 +287,7 @@ export function ChatInput({
                 ? 'bg-transparent text-[var(--color-text-placeholder)] cursor-not-allowed opacity-50'
                 : 'bg-transparent text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-border)]'
             }`}
-            title={'Generate Quiz'}
+            title={'New Quiz'}
           >
             {isQuizLoading ? (
               <Loader2 className="w-4 h-4 animate-spin" />
@@ -155,6 +296,25 @@ export function ChatInput({
             )}
           </button>
 
+          {/* Flashcards button */}
+          <button
+            type="button"
+            onClick={onGenerateFlashcards}
+            disabled={!canGenerateFlashcards || isFlashcardLoading || isLoading}
+            className={`interactive-button w-9 h-9 flex items-center justify-center rounded-lg transition-all duration-200 ${
+              !canGenerateFlashcards || isFlashcardLoading || isLoading
+                ? 'bg-transparent text-[var(--color-text-placeholder)] cursor-not-allowed opacity-50'
+                : 'bg-transparent text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-border)]'
+            }`}
+            title={'Generate Flashcards'}
+          >
+            {isFlashcardLoading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Layers className="w-4 h-4" />
+            )}
+          </button>
+
           {/* Flowchart button */}
           <button
             type="button"
@@ -0,0 +1,75 @@
+// src/components/ComparisonView.tsx
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { AlertTriangle, Check, Loader2, X } from 'lucide-react';
+import { Comparison } from '../types';
+import { ProviderDefinition } from '../services/providers';
+import { formatTokenCount } from '../services/tokenUsage';
+
+interface ComparisonViewProps {
+  comparison: Comparison;
+  providers: ProviderDefinition[];
+  isStreaming: boolean;
+  onKeep: (messageId: string) => void;
+  onDiscard: () => void;
+}
+
+export function ComparisonView({ comparison, providers, isStreaming, onKeep, onDiscard }: ComparisonViewProps) {
+  return (
+    <div className="space-y-3 animate-fadeIn">
+      <div className="flex items-center justify-between text-xs text-[var(--color-text-secondary)]">
+        <span>
+          {isStreaming ? 'Models are answering...' : 'Pick the answer to keep. The others stay available as alternative versions.'}
+        </span>
+        {!isStreaming && (
+          <button
+            onClick={onDiscard}
+            className="flex items-center gap-1 px-2 py-1 rounded-md hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)] transition-colors"
+          >
+            <X className="w-3 h-3" /> Discard all
+          </button>
+        )}
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-2 snap-x">
+        {comparison.answers.map(({ message, status, error }) => {
+          const provider = providers.find(p => p.id === message.model);
+          return (
+            <div
+              key={message.id}
+              className="flex-1 min-w-[260px] snap-start flex flex-col bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg"
+            >
+              <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-[var(--color-border)] text-xs font-medium">
+                <span className="truncate">{provider?.shortName || provider?.name || message.model}</span>
+                <span className="flex items-center gap-1 text-[var(--color-text-secondary)] font-normal">
+                  {status === 'streaming' && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {message.usage && `${message.usage.estimated ? '~' : ''}${formatTokenCount(message.usage.promptTokens + message.usage.completionTokens)} tokens`}
+                </span>
+              </div>
+              <div className="flex-1 px-3 py-2 prose prose-invert prose-sm max-w-none max-h-[60vh] overflow-y-auto">
+                {message.content ? (
+                  <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>
+                ) : status === 'streaming' ? (
+                  <p className="text-[var(--color-text-placeholder)]">Waiting for the first words...</p>
+                ) : null}
+                {error && (
+                  <p className="not-prose flex items-start gap-1.5 text-xs text-yellow-500 mt-2">
+                    <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" /> {error}
+                  </p>
+                )}
+              </div>
+              <div className="px-3 py-2 border-t border-[var(--color-border)]">
+                <button
+                  onClick={() => onKeep(message.id)}
+                  disabled={isStreaming || !message.content}
+                  className="w-full flex items-center justify-center gap-1.5 py-1.5 text-sm font-semibold rounded-lg bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Check className="w-3.5 h-3.5" /> Keep this answer
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
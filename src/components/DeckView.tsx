@@ -0,0 +1,63 @@
+// src/components/DeckView.tsx
+import { Layers } from 'lucide-react';
+import { Flashcard, FlashcardDeck } from '../types';
+import { countDue, isDue } from '../services/spacedRepetition';
+import { formatDate } from '../utils/helpers';
+
+interface DeckViewProps {
+  deck: FlashcardDeck;
+  onReview: (deck: FlashcardDeck) => void;
+}
+
+function dueLabel(card: Flashcard): string {
+  if (isDue(card)) return card.repetitions === 0 && card.lapses === 0 ? 'New' : 'Due now';
+  const days = (card.due.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+  if (days < 1) return 'Due soon'; // relearning after a miss
+  return `Due in ${Math.round(days)} day${Math.round(days) === 1 ? '' : 's'}`;
+}
+
+export function DeckView({ deck, onReview }: DeckViewProps) {
+  const due = countDue(deck);
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-[var(--color-bg)] overflow-y-auto scroll-container">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 sm:py-8 w-full">
+        <div className="mb-6 pb-4 border-b border-[var(--color-border)]">
+          <h1 className="text-2xl sm:text-3xl font-bold text-[var(--color-text-primary)] mb-2 leading-tight">{deck.title}</h1>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-[var(--color-text-secondary)]">
+            <span>Created {formatDate(deck.createdAt)}</span>
+            <span className="px-2 py-1 bg-[var(--color-card)] rounded-full text-xs">
+              {deck.sourceNoteId ? 'From Note' : 'From Chat'}
+            </span>
+            <span>{deck.cards.length} cards · {due} due</span>
+            <button
+              onClick={() => onReview(deck)}
+              disabled={due === 0}
+              className="interactive-button ml-auto flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Layers className="w-4 h-4" />
+              Review this deck
+            </button>
+          </div>
+        </div>
+
+        <ul className="space-y-3">
+          {deck.cards.map(card => (
+            <li key={card.id} className="p-4 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg">
+              <div className="flex items-start justify-between gap-4">
+                <p className="font-semibold text-[var(--color-text-primary)] whitespace-pre-wrap">{card.front}</p>
+                <span className={`text-xs flex-shrink-0 ${isDue(card) ? 'text-[var(--color-text-primary)]' : 'text-[var(--color-text-secondary)]'}`}>
+                  {dueLabel(card)}
+                </span>
+              </div>
+              <p className="mt-2 text-sm text-[var(--color-text-secondary)] whitespace-pre-wrap">{card.back}</p>
+              {card.lapses > 0 && (
+                <p className="mt-2 text-xs text-yellow-400">Forgotten {card.lapses} time{card.lapses === 1 ? '' : 's'}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+// src/components/ExamQuiz.tsx
+import { useEffect, useRef, useState } from 'react';
+import { CheckCircle, XCircle, Flag, Clock, Loader2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ExamTiming, QuizQuestion, StudySession } from '../types';
+import {
+  QUESTION_TYPE_LABELS,
+  QuizResponse,
+  applyResponse,
+  completeSession,
+  initialResponse,
+  isAiGraded,
+  isResponseComplete,
+} from '../services/quizGrading';
+import { formatDuration } from '../utils/helpers';
+import { QuizDialog } from './QuizDialog';
+import { QuizQuestionInput } from './QuizQuestionInput';
+
+interface ExamQuizProps {
+  onClose: () => void;
+  session: StudySession;
+  exam: ExamTiming;
+  onComplete?: (session: StudySession) => void;
+  onGradeShortAnswer: (question: QuizQuestion, answer: string, signal: AbortSignal) => Promise<{ isCorrect: boolean; feedback: string }>;
+}
+
+type ExamPhase = 'running' | 'grading' | 'done';
+
+// The countdown turns red for the last minute
+const WARNING_SECONDS = 60;
+
+/**
+ * A timed run through the whole quiz. Answers can be changed and questions
+ * flagged until the exam is submitted, by hand or when time runs out; only
+ * then is anything graded.
+ */
+export function ExamQuiz({ onClose, session, exam, onComplete, onGradeShortAnswer }: ExamQuizProps) {
+  const { questions } = session;
+  const [currentIndex, setCurrentIndex] = useState(0);
+  // Only answers the student has given; ordering questions show a shuffled start until moved
+  const [responses, setResponses] = useState<Record<string, QuizResponse>>({});
+  const [startingResponses] = useState<Record<string, QuizResponse>>(() =>
+    Object.fromEntries(questions.map(question => [question.id, initialResponse(question)]))
+  );
+  const [flagged, setFlagged] = useState<string[]>([]);
+  const [phase, setPhase] = useState<ExamPhase>('running');
+  const [results, setResults] = useState<StudySession | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const startedAtRef = useRef(Date.now());
+  const enteredAtRef = useRef(Date.now());
+  const timeSpentRef = useRef<Record<string, number>>({}); // milliseconds per question id
+  const gradeControllerRef = useRef<AbortController | null>(null);
+  const submitRef = useRef<(timedOut: boolean) => void>(() => {});
+
+  const currentQuestion = questions[currentIndex];
+  const elapsedSeconds = Math.floor((now - startedAtRef.current) / 1000);
+  const remainingSeconds = Math.max(0, exam.timeLimitSeconds - elapsedSeconds);
+
+  const responseFor = (question: QuizQuestion) => responses[question.id] ?? startingResponses[question.id];
+  const isAnswered = (question: QuizQuestion) =>
+    question.id in responses && isResponseComplete(question, responses[question.id]);
+  const unansweredCount = questions.filter(question => !isAnswered(question)).length;
+
+  // Adds the time since the current question was opened to its total
+  const recordTime = () => {
+    const id = questions[currentIndex]?.id;
+    if (!id) return;
+    const spent = Date.now() - enteredAtRef.current;
+    timeSpentRef.current = { ...timeSpentRef.current, [id]: (timeSpentRef.current[id] || 0) + spent };
+    enteredAtRef.current = Date.now();
+  };
+
+  const goTo = (index: number) => {
+    if (index === currentIndex || index < 0 || index >= questions.length) return;
+    recordTime();
+    setCurrentIndex(index);
+  };
+
+  const toggleFlag = (id: string) => {
+    setFlagged(prev => (prev.includes(id) ? prev.filter(flaggedId => flaggedId !== id) : [...prev, id]));
+  };
+
+  const submitExam = async (timedOut: boolean) => {
+    if (phase !== 'running') return;
+    recordTime();
+    setPhase('grading');
+    const controller = new AbortController();
+    gradeControllerRef.current = controller;
+    const elapsed = Math.min(exam.timeLimitSeconds, Math.round((Date.now() - startedAtRef.current) / 1000));
+
+    // Unanswered questions count as wrong; short answers are graded together at the end
+    const graded = await Promise.all(questions.map(async (question): Promise<QuizQuestion> => {
+      const timed = {
+        ...question,
+        flagged: flagged.includes(question.id),
+        timeSpentSeconds: Math.round((timeSpentRef.current[question.id] || 0) / 1000),
+      };
+      if (!isAnswered(question)) return { ...timed, isCorrect: false };
+      const answered = applyResponse(timed, responses[question.id]);
+      if (!isAiGraded(answered)) return answered;
+      try {
+        return { ...answered, ...(await onGradeShortAnswer(question, answered.userText || '', controller.signal)) };
+      } catch {
+        return { ...answered, isCorrect: false, feedback: 'This answer could not be graded.' };
+      }
+    }));
+    if (controller.signal.aborted) return;
+
+    const completed = completeSession(session, graded, { ...exam, elapsedSeconds: elapsed, timedOut });
+    setResults(completed);
+    setPhase('done');
+    onComplete?.(completed);
+  };
+
+  // The interval reads the latest submit through a ref so it never acts on stale answers
+  useEffect(() => {
+    submitRef.current = (timedOut: boolean) => { submitExam(timedOut); };
+  });
+
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const deadline = startedAtRef.current + exam.timeLimitSeconds * 1000;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= deadline) submitRef.current(true);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [phase, exam.timeLimitSeconds]);
+
+  // Stop any grading request when the exam is closed
+  useEffect(() => () => gradeControllerRef.current?.abort(), []);
+
+  const handleSubmit = () => {
+    if (unansweredCount > 0 && !window.confirm(`${unansweredCount} question${unansweredCount === 1 ? ' is' : 's are'} unanswered. Submit the exam anyway?`)) return;
+    submitExam(false);
+  };
+
+  const handleClose = () => {
+    if (phase !== 'done' && !window.confirm('Leave the exam? Your answers will not be saved.')) return;
+    onClose();
+  };
+
+  const renderPalette = () => (
+    <div className="flex flex-wrap justify-center gap-1.5 mb-6" aria-label="Questions">
+      {questions.map((question, index) => {
+        const stateClass = index === currentIndex
+          ? 'bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] border-transparent'
+          : isAnswered(question)
+            ? 'bg-[var(--color-border)] border-transparent'
+            : 'border-[var(--color-border)] text-[var(--color-text-secondary)]';
+        return (
+          <button
+            key={question.id}
+            onClick={() => goTo(index)}
+            className={`interactive-button relative w-8 h-8 rounded-md border text-xs font-bold ${stateClass}`}
+            aria-label={`Question ${index + 1}${flagged.includes(question.id) ? ', flagged' : ''}`}
+            aria-current={index === currentIndex}
+          >
+            {index + 1}
+            {flagged.includes(question.id) && <Flag className="absolute -top-1.5 -right-1.5 w-3 h-3 text-yellow-400 fill-yellow-400" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderExamContent = () => {
+    if (!currentQuestion) return null;
+    const isFlagged = flagged.includes(currentQuestion.id);
+    return (
+      <>
+        {renderPalette()}
+        <div key={currentQuestion.id} className="animate-fadeIn">
+          <div className="mb-4 flex items-center justify-center gap-2">
+            <span className="bg-[var(--color-card)] px-3 py-1 rounded-full text-sm font-semibold text-[var(--color-text-secondary)]">
+              Question {currentIndex + 1} / {questions.length} · {QUESTION_TYPE_LABELS[currentQuestion.type]}
+            </span>
+            <button
+              onClick={() => toggleFlag(currentQuestion.id)}
+              className={`interactive-button flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-semibold border ${isFlagged ? 'border-yellow-500/60 text-yellow-300' : 'border-[var(--color-border)] text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'}`}
+              aria-pressed={isFlagged}
+            >
+              <Flag className={`w-3.5 h-3.5 ${isFlagged ? 'fill-yellow-400' : ''}`} />
+              {isFlagged ? 'Flagged' : 'Flag'}
+            </button>
+          </div>
+          <h3 className="text-xl md:text-2xl font-bold text-center text-[var(--color-text-primary)] mb-8 leading-tight">
+            {currentQuestion.question}
+          </h3>
+
+          <QuizQuestionInput
+            question={currentQuestion}
+            response={responseFor(currentQuestion)}
+            onChange={response => setResponses(prev => ({ ...prev, [currentQuestion.id]: response }))}
+            onSubmit={() => goTo(currentIndex + 1)}
+            disabled={phase !== 'running'}
+          />
+        </div>
+      </>
+    );
+  };
+
+  const renderResults = (completed: StudySession) => {
+    const percent = questions.length > 0 ? Math.round((completed.score / questions.length) * 100) : 0;
+    const slowest = Math.max(1, ...completed.questions.map(question => question.timeSpentSeconds || 0));
+    return (
+      <div className="animate-fadeIn">
+        <div className="text-center mb-6">
+          <h3 className="text-2xl font-bold mb-2">Exam submitted</h3>
+          <p className="text-5xl font-bold text-[var(--color-accent-bg)] mb-2">
+            {completed.score} <span className="text-2xl text-[var(--color-text-secondary)]">/ {questions.length}</span>
+          </p>
+          <p className="font-semibold text-lg">{percent}%</p>
+          <p className="text-sm text-[var(--color-text-secondary)] mt-2">
+            Time used {formatDuration(completed.exam?.elapsedSeconds ?? 0)} of {formatDuration(exam.timeLimitSeconds)}
+            {completed.exam?.timedOut && ' · submitted when time ran out'}
+          </p>
+        </div>
+
+        <h4 className="text-sm font-semibold mb-2">Time per question</h4>
+        <ol className="space-y-2">
+          {completed.questions.map((question, index) => (
+            <li key={question.id} className="p-3 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg">
+              <div className="flex items-center gap-2 text-sm">
+                {question.isCorrect
+                  ? <CheckCircle className="w-4 h-4 flex-shrink-0 text-green-400" />
+                  : <XCircle className="w-4 h-4 flex-shrink-0 text-red-400" />}
+                <span className="flex-1 min-w-0 truncate" title={question.question}>{index + 1}. {question.question}</span>
+                {question.flagged && <Flag className="w-3.5 h-3.5 flex-shrink-0 text-yellow-400 fill-yellow-400" aria-label="Flagged" />}
+                <span className="flex-shrink-0 text-xs text-[var(--color-text-secondary)] tabular-nums">{formatDuration(question.timeSpentSeconds || 0)}</span>
+              </div>
+              <div className="mt-2 h-1 bg-[var(--color-border)] rounded-full overflow-hidden">
+                <div className="h-full bg-[var(--color-accent-bg)]" style={{ width: `${((question.timeSpentSeconds || 0) / slowest) * 100}%` }} />
+              </div>
+              {question.feedback && <p className="mt-2 text-xs text-[var(--color-text-secondary)]">{question.feedback}</p>}
+            </li>
+          ))}
+        </ol>
+        {onComplete && (
+          <p className="text-xs text-center text-[var(--color-text-secondary)] mt-4">Saved to your quiz history, with every answer and explanation.</p>
+        )}
+      </div>
+    );
+  };
+
+  const navButtonClass = 'interactive-button flex items-center gap-1 px-4 py-2.5 rounded-lg font-semibold hover:bg-[var(--color-card)] disabled:opacity-40 disabled:cursor-not-allowed';
+  const answeredCount = questions.length - unansweredCount;
+
+  return (
+    <QuizDialog
+      title="Exam"
+      progress={phase === 'done' ? 100 : (answeredCount / Math.max(1, questions.length)) * 100}
+      onClose={handleClose}
+      headerExtra={phase !== 'done' && (
+        <span
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-bold tabular-nums bg-[var(--color-card)] ${remainingSeconds <= WARNING_SECONDS ? 'text-red-400' : ''}`}
+          aria-label="Time remaining"
+        >
+          <Clock className="w-4 h-4" />
+          {formatDuration(remainingSeconds)}
+        </span>
+      )}
+      footer={phase === 'done' ? (
+        <button onClick={onClose} className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
+          Finish
+        </button>
+      ) : (
+        <>
+          <button onClick={() => goTo(currentIndex - 1)} disabled={currentIndex === 0 || phase !== 'running'} className={navButtonClass}>
+            <ChevronLeft className="w-4 h-4" /> Previous
+          </button>
+          <button onClick={() => goTo(currentIndex + 1)} disabled={currentIndex === questions.length - 1 || phase !== 'running'} className={navButtonClass}>
+            Next <ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={phase !== 'running'}
+            className="interactive-button flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {phase === 'grading' && <Loader2 className="w-4 h-4 animate-spin" />}
+            {phase === 'grading' ? 'Grading...' : 'Submit exam'}
+          </button>
+        </>
+      )}
+    >
+      {results ? renderResults(results) : renderExamContent()}
+    </QuizDialog>
+  );
+}
@@ -0,0 +1,172 @@
+// src/components/FlashcardReviewModal.tsx
+import { useEffect, useState } from 'react';
+import { X, CheckCircle } from 'lucide-react';
+import { Flashcard, ReviewRating } from '../types';
+import { DueCard, REVIEW_RATINGS, formatNextInterval, scheduleReview } from '../services/spacedRepetition';
+
+interface FlashcardReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cards: DueCard[]; // the queue to work through, taken when the review was started
+  onReview: (deckId: string, card: Flashcard) => void; // receives the card with its next review scheduled
+}
+
+const RATING_STYLES: Record<ReviewRating, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'border-red-500/50 text-red-300 hover:bg-red-900/30' },
+  hard: { label: 'Hard', className: 'border-yellow-500/50 text-yellow-300 hover:bg-yellow-900/30' },
+  good: { label: 'Good', className: 'border-green-500/50 text-green-300 hover:bg-green-900/30' },
+  easy: { label: 'Easy', className: 'border-blue-500/50 text-blue-300 hover:bg-blue-900/30' },
+};
+
+export function FlashcardReviewModal({ isOpen, onClose, cards, onReview }: FlashcardReviewModalProps) {
+  const [queue, setQueue] = useState<DueCard[]>([]);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const [forgotten, setForgotten] = useState(0);
+  const current = queue[0];
+
+  // Start over whenever a new review is opened
+  useEffect(() => {
+    if (isOpen) {
+      setQueue(cards);
+      setShowAnswer(false);
+      setReviewed(0);
+      setForgotten(0);
+    }
+  }, [isOpen, cards]);
+
+  const handleRate = (rating: ReviewRating) => {
+    if (!current || !showAnswer) return;
+    const next = scheduleReview(current.card, rating);
+    onReview(current.deckId, next);
+    setReviewed(prev => prev + 1);
+    // Forgotten cards go to the back of the queue so they are seen again this session
+    if (rating === 'again') {
+      setForgotten(prev => prev + 1);
+      setQueue(prev => [...prev.slice(1), { ...current, card: next }]);
+    } else {
+      setQueue(prev => prev.slice(1));
+    }
+    setShowAnswer(false);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (!current) {
+        return;
+      } else if (!showAnswer && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setShowAnswer(true);
+      } else if (showAnswer && e.key >= '1' && e.key <= '4') {
+        handleRate(REVIEW_RATINGS[Number(e.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!isOpen) return null;
+
+  const total = cards.length;
+  const remaining = new Set(queue.map(item => item.card.id)).size;
+  const progress = total > 0 ? ((total - remaining) / total) * 100 : 100;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 bg-black/70 backdrop-blur-sm animate-fadeIn">
+      <div
+        className="relative w-full max-w-2xl bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-2xl shadow-2xl flex flex-col animate-fade-in-up overflow-hidden max-h-[90vh] max-h-[90dvh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="review-title"
+      >
+        {/* Progress Bar */}
+        <div className="absolute top-0 left-0 w-full bg-[var(--color-card)] h-1.5">
+          <div
+            className="bg-[var(--color-accent-bg)] h-1.5 rounded-r-full transition-all duration-300 ease-out"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+
+        {/* Header */}
+        <div className="p-4 sm:p-5 flex items-center justify-between border-b border-[var(--color-border)]">
+          <h2 id="review-title" className="text-lg font-bold">
+            Flashcard Review
+          </h2>
+          <button onClick={onClose} className="interactive-button w-8 h-8 flex items-center justify-center rounded-full hover:bg-[var(--color-card)] transition-colors" aria-label="Close review">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 sm:p-6 md:p-8 overflow-y-auto">
+          {current ? (
+            <div key={`${current.card.id}-${reviewed}`} className="animate-fadeIn">
+              <p className="mb-4 text-center">
+                <span className="bg-[var(--color-card)] px-3 py-1 rounded-full text-sm font-semibold text-[var(--color-text-secondary)]">
+                  {current.deckTitle} · {remaining} left
+                </span>
+              </p>
+              <h3 className="text-xl md:text-2xl font-bold text-center text-[var(--color-text-primary)] leading-tight whitespace-pre-wrap">
+                {current.card.front}
+              </h3>
+              {showAnswer && (
+                <div className="mt-8 pt-6 border-t border-[var(--color-border)] animate-fade-in-up">
+                  <p className="text-base sm:text-lg text-center text-[var(--color-text-secondary)] whitespace-pre-wrap">
+                    {current.card.back}
+                  </p>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="text-center flex flex-col items-center justify-center h-full p-4 sm:p-8 animate-pop-in">
+              <CheckCircle className="w-16 h-16 text-green-400 mb-4" />
+              <h3 className="text-2xl font-bold mb-2">
+                {total === 0 ? 'Nothing due' : 'All done for now!'}
+              </h3>
+              <p className="text-base text-[var(--color-text-secondary)]">
+                {total === 0
+                  ? 'No cards are due for review. Check back later.'
+                  : `${reviewed} review${reviewed === 1 ? '' : 's'}, ${forgotten} forgotten. Cards come back when they are due again.`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-[var(--color-border)] bg-[var(--color-bg)]/50 mt-auto">
+          {!current ? (
+            <div className="flex justify-end">
+              <button onClick={onClose} className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
+                Finish
+              </button>
+            </div>
+          ) : showAnswer ? (
+            <div className="grid grid-cols-4 gap-2">
+              {REVIEW_RATINGS.map((rating, index) => (
+                <button
+                  key={rating}
+                  onClick={() => handleRate(rating)}
+                  className={`interactive-button flex flex-col items-center py-2 rounded-lg border transition-colors ${RATING_STYLES[rating].className}`}
+                  title={`${RATING_STYLES[rating].label} (${index + 1})`}
+                >
+                  <span className="text-sm font-bold">{RATING_STYLES[rating].label}</span>
+                  <span className="text-xs opacity-80">{formatNextInterval(current.card, rating)}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowAnswer(true)}
+              className="w-full interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]"
+            >
+              Show answer
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
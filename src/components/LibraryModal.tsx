@@ -0,0 +1,151 @@
+// src/components/LibraryModal.tsx
+import React, { useRef, useState } from 'react';
+import { FileText, Library, Loader2, Trash2, Upload, X } from 'lucide-react';
+import { LibraryDocument } from '../types';
+import { LIBRARY_ACCEPT, addToLibrary, removeFromLibrary } from '../utils/library';
+import { formatFileSize } from '../utils/attachments';
+import { formatDate } from '../utils/helpers';
+
+interface LibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documents: LibraryDocument[];
+  onDocumentsChange: () => void; // reload the list after an upload or delete
+  useLibrary: boolean;
+  onUseLibraryChange: (useLibrary: boolean) => void;
+}
+
+export function LibraryModal({ isOpen, onClose, documents, onDocumentsChange, useLibrary, onUseLibraryChange }: LibraryModalProps) {
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    setErrors([]);
+    for (const file of files) {
+      setUploading(file.name);
+      try {
+        await addToLibrary(file);
+      } catch (error) {
+        setErrors(prev => [...prev, error instanceof Error ? error.message : `${file.name} could not be added.`]);
+      }
+      onDocumentsChange();
+    }
+    setUploading(null);
+  };
+
+  const handleDelete = async (document: LibraryDocument) => {
+    if (!window.confirm(`Remove "${document.name}" from the library?`)) return;
+    try {
+      await removeFromLibrary(document.id);
+    } catch (error) {
+      console.error('Error removing document:', error);
+      setErrors([`${document.name} could not be removed.`]);
+    }
+    onDocumentsChange();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+      <div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+      <div className="relative w-full max-w-lg bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-lg shadow-2xl flex flex-col animate-fade-in-up">
+        {/* Header */}
+        <div className="p-6 flex items-center justify-between border-b border-[var(--color-border)]">
+          <div className="flex items-center gap-3">
+            <Library className="w-5 h-5" />
+            <h2 className="text-xl font-bold">Document Library</h2>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-[var(--color-card)] transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 min-h-[20rem] max-h-[60vh] overflow-y-auto">
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            Add lecture notes and textbooks as text, Markdown or PDF files. They are indexed on this device, and the most relevant passages are sent with your questions so answers can cite them.
+          </p>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={useLibrary}
+              onChange={(e) => onUseLibraryChange(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              <span className="text-sm font-medium">Answer from my documents</span>
+              <span className="block text-xs text-[var(--color-text-secondary)]">
+                Look up matching passages for every question and cite them in the reply.
+              </span>
+            </span>
+          </label>
+
+          <div>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!!uploading}
+              className="w-full flex items-center justify-center gap-2 py-2.5 text-sm font-semibold rounded-lg border border-dashed border-[var(--color-border)] hover:bg-[var(--color-card)] transition-colors disabled:opacity-60"
+            >
+              {uploading ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" /> Indexing {uploading}...
+                </>
+              ) : (
+                <>
+                  <Upload className="w-4 h-4" /> Add documents
+                </>
+              )}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={LIBRARY_ACCEPT}
+              multiple
+              onChange={handleFiles}
+              className="hidden"
+            />
+            {errors.map(error => (
+              <p key={error} className="mt-2 text-xs text-red-400">{error}</p>
+            ))}
+          </div>
+
+          {documents.length === 0 ? (
+            <p className="text-center text-sm text-[var(--color-text-secondary)] py-6">No documents yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {documents.map(document => (
+                <li
+                  key={document.id}
+                  className="flex items-center gap-3 p-3 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg"
+                >
+                  <FileText className="w-4 h-4 flex-shrink-0 text-[var(--color-text-secondary)]" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{document.name}</p>
+                    <p className="text-xs text-[var(--color-text-secondary)]">
+                      {formatFileSize(document.size)} · {document.chunks.length} passages · added {formatDate(document.addedAt)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(document)}
+                    className="p-1.5 rounded-lg text-[var(--color-text-secondary)] hover:text-red-400 hover:bg-[var(--color-border)] transition-colors"
+                    title="Remove from library"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
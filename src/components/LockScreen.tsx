@@ -0,0 +1,71 @@
+// src/components/LockScreen.tsx
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+
+interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+  onReset: () => void;
+}
+
+export function LockScreen({ onUnlock, onReset }: LockScreenProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlock.');
+      setPassphrase('');
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (confirm('Delete the encrypted API keys? Your conversations and notes are kept, but you will need to enter your API keys again.')) {
+      onReset();
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[var(--color-bg)] text-[var(--color-text-primary)] p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-[var(--color-card)] border border-[var(--color-border)] rounded-xl p-6 space-y-4 animate-fadeIn">
+        <div className="flex flex-col items-center text-center gap-2">
+          <div className="w-12 h-12 rounded-full bg-[var(--color-bg)] flex items-center justify-center">
+            <Lock className="w-5 h-5 text-[var(--color-text-secondary)]" />
+          </div>
+          <h1 className="text-lg font-semibold">AI Tutor is locked</h1>
+          <p className="text-sm text-[var(--color-text-secondary)]">Enter your passphrase to unlock your API keys.</p>
+        </div>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => { setPassphrase(e.target.value); setError(''); }}
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          autoFocus
+          className="w-full px-3 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-bg)] focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full py-2 font-semibold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] rounded-lg hover:bg-[var(--color-accent-bg-hover)] transition-colors disabled:opacity-50"
+        >
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+        <button
+          type="button"
+          onClick={handleReset}
+          className="w-full text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]"
+        >
+          Forgot passphrase?
+        </button>
+      </form>
+    </div>
+  );
+}
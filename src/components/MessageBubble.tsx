@@ -3,24 +3,24 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Smile, Sparkles, Copy, Check, Edit2, RefreshCcw, Save, X, Bookmark, Download } from 'lucide-react';
-import { Message } from '../types';
+import { Smile, Sparkles, Copy, Check, Edit2, RefreshCcw, Save, X, Bookmark, Download, AlertTriangle, Play, ChevronLeft, ChevronRight, FileText } from 'lucide-react';
+import { Attachment, Message } from '../types';
+import { formatTokenCount } from '../services/tokenUsage';
+import { BranchPosition } from '../utils/conversationTree';
+import { formatFileSize, openAttachment } from '../utils/attachments';
 
 interface MessageBubbleProps {
   message: Message;
+  modelName?: string;
   isStreaming?: boolean;
   onEditMessage?: (messageId: string, newContent: string) => void;
   onRegenerateResponse?: (messageId: string) => void;
+  onContinueResponse?: (messageId: string) => void;
   onSaveAsNote?: (content: string) => void;
+  branch?: BranchPosition;
+  onSwitchBranch?: (messageId: string, offset: number) => void;
 }
 
-const modelNames = {
-  google: "Gemma",
-  zhipu: "Zhipu",
-  'mistral-small': "Misty",
-  'mistral-codestral': "Cody",
-};
-
 // Memoized code block component to prevent unnecessary re-renders
 const CodeBlock = React.memo(({ language, children }: { language: string; children: string; }) => {
   const [copied, setCopied] = useState(false);
@@ -125,26 +125,75 @@ const ActionButtons = React.memo(({ isUser, onRegenerate, onEdit, onCopy, onSave
   </div>
 ));
 
+// Turns citation markers such as [2] or [1, 3] into links the markdown renderer hands back to us
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+const CITATION_HREF = '#cite-';
+
+function linkCitations(content: string, count: number): string {
+  if (count === 0) return content;
+  return content.replace(CITATION_PATTERN, (marker, list: string) => {
+    const numbers = list.split(',').map(n => Number(n.trim()));
+    if (numbers.some(n => n < 1 || n > count)) return marker;
+    return numbers.map(n => `[[${n}]](${CITATION_HREF}${n})`).join('');
+  });
+}
+
+// Opens the stored file in a new tab; backups carry only the thumbnail and extracted text
+const AttachmentPreview = React.memo(({ attachment }: { attachment: Attachment }) => {
+  const handleOpen = useCallback(async () => {
+    if (!(await openAttachment(attachment))) {
+      alert('This file is not stored on this device.');
+    }
+  }, [attachment]);
+
+  if (attachment.thumbnail) {
+    return (
+      <button onClick={handleOpen} className="interactive-button rounded-lg overflow-hidden border border-[var(--color-border)]" title={attachment.name}>
+        <img src={attachment.thumbnail} alt={attachment.name} className="h-24 max-w-[160px] object-cover" />
+      </button>
+    );
+  }
+  return (
+    <button
+      onClick={handleOpen}
+      className="interactive-button flex items-center gap-2 px-3 py-2 rounded-lg border border-[var(--color-border)] bg-[var(--color-bg)] text-left max-w-[240px]"
+      title={attachment.name}
+    >
+      <FileText className="w-4 h-4 flex-shrink-0 text-[var(--color-text-secondary)]" />
+      <span className="min-w-0">
+        <span className="block text-xs font-medium truncate">{attachment.name}</span>
+        <span className="block text-xs text-[var(--color-text-secondary)]">{formatFileSize(attachment.size)}</span>
+      </span>
+    </button>
+  );
+});
+
 export function MessageBubble({
   message,
+  modelName,
   isStreaming = false,
   onEditMessage,
   onRegenerateResponse,
+  onContinueResponse,
   onSaveAsNote,
+  branch,
+  onSwitchBranch,
 }: MessageBubbleProps) {
   const isUser = message.role === 'user';
   const [copied, setCopied] = useState(false);
   const [noteSaved, setNoteSaved] = useState(false);
   const [editContent, setEditContent] = useState(message.content);
   const [isEditing, setIsEditing] = useState(message.isEditing || false);
+  const [openCitation, setOpenCitation] = useState<number | null>(null);
+  const sourcesRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const copyTimeoutRef = useRef<NodeJS.Timeout>();
 
   // Memoize display model to prevent unnecessary recalculations
   const displayModel = useMemo(() => {
     if (isUser || !message.model) return undefined;
-    return modelNames[message.model] || modelNames['google'];
-  }, [isUser, message.model]);
+    return modelName || message.model;
+  }, [isUser, message.model, modelName]);
 
   const handleCopy = useCallback(async () => {
     try {
@@ -228,8 +277,35 @@ export function MessageBubble({
     };
   }, []);
 
+  const citationCount = message.citations?.length || 0;
+  const displayContent = useMemo(
+    () => linkCitations(message.content, citationCount),
+    [message.content, citationCount]
+  );
+
+  useEffect(() => {
+    if (openCitation !== null) {
+      sourcesRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [openCitation]);
+
   // Memoize markdown components to prevent re-creation on every render
   const markdownComponents = useMemo(() => ({
+    a({ href, title, children }: React.AnchorHTMLAttributes<HTMLAnchorElement>) {
+      if (typeof href === 'string' && href.startsWith(CITATION_HREF)) {
+        const number = Number(href.slice(CITATION_HREF.length));
+        return (
+          <button
+            onClick={() => setOpenCitation(number)}
+            className="not-prose align-super text-[0.7em] font-semibold px-0.5 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]"
+            title="Show source"
+          >
+            {children}
+          </button>
+        );
+      }
+      return <a href={href} title={title}>{children}</a>;
+    },
     code({ node, inline, className, children, ...props }: any) {
       const match = /language-(\w+)/.exec(className || '');
       if (!inline && match) {
@@ -282,9 +358,25 @@ export function MessageBubble({
         {!isUser && displayModel && (
           <div className="text-xs text-[var(--color-text-secondary)] mb-2 font-medium tracking-wide">
             {displayModel}
+            {message.usage && !isStreaming && (
+              <span
+                className="ml-2 font-normal opacity-70"
+                title={`${message.usage.promptTokens} prompt + ${message.usage.completionTokens} completion tokens${message.usage.estimated ? ' (estimated)' : ''}`}
+              >
+                · {message.usage.estimated ? '~' : ''}{formatTokenCount(message.usage.promptTokens + message.usage.completionTokens)} tokens
+              </span>
+            )}
           </div>
         )}
         
+        {message.attachments && message.attachments.length > 0 && (
+          <div className={`flex flex-wrap gap-2 mb-2 ${isUser ? 'justify-end' : ''}`}>
+            {message.attachments.map(attachment => (
+              <AttachmentPreview key={attachment.id} attachment={attachment} />
+            ))}
+          </div>
+        )}
+
         {isEditing ? (
           <div className="space-y-3">
             <textarea
@@ -322,12 +414,81 @@ export function MessageBubble({
               remarkPlugins={[remarkGfm]}
               components={markdownComponents}
             >
-              {message.content}
+              {displayContent}
             </ReactMarkdown>
             {isStreaming && <StreamingIndicator />}
+            {message.stalled && !isStreaming && (
+              <div className="not-prose mt-3 flex flex-wrap items-center gap-2 text-sm text-[var(--color-text-secondary)]">
+                <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                <span>The response stopped before it finished.</span>
+                {onContinueResponse && (
+                  <button
+                    onClick={() => onContinueResponse(message.id)}
+                    className="interactive-button flex items-center gap-1 px-2 py-1 rounded-md border border-[var(--color-border)] hover:bg-[var(--color-card)] transition-colors touch-target"
+                  >
+                    <Play className="w-3 h-3" />
+                    Continue
+                  </button>
+                )}
+                {onRegenerateResponse && (
+                  <button
+                    onClick={handleRegenerate}
+                    className="interactive-button flex items-center gap-1 px-2 py-1 rounded-md border border-[var(--color-border)] hover:bg-[var(--color-card)] transition-colors touch-target"
+                  >
+                    <RefreshCcw className="w-3 h-3" />
+                    Retry
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         )}
         
+        {message.citations && message.citations.length > 0 && !isEditing && (
+          <div ref={sourcesRef} className="mt-3 pt-2 border-t border-[var(--color-border)] space-y-1 text-xs">
+            <p className="font-semibold text-[var(--color-text-secondary)]">Sources</p>
+            {message.citations.map((citation, i) => (
+              <div key={`${citation.documentId}-${citation.chunkIndex}`}>
+                <button
+                  onClick={() => setOpenCitation(openCitation === i + 1 ? null : i + 1)}
+                  className={`text-left hover:text-[var(--color-text-primary)] transition-colors ${
+                    openCitation === i + 1 ? 'text-[var(--color-text-primary)]' : 'text-[var(--color-text-secondary)]'
+                  }`}
+                >
+                  [{i + 1}] {citation.documentName} · passage {citation.chunkIndex + 1}
+                </button>
+                {openCitation === i + 1 && (
+                  <p className="mt-1 mb-2 pl-3 border-l-2 border-[var(--color-border)] text-[var(--color-text-secondary)] whitespace-pre-wrap">
+                    {citation.text}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {branch && branch.total > 1 && !isEditing && (
+          <div className="flex items-center gap-1 mt-2 text-xs text-[var(--color-text-secondary)] select-none">
+            <button
+              onClick={() => onSwitchBranch?.(message.id, -1)}
+              disabled={!onSwitchBranch || branch.index === 0}
+              className="p-0.5 rounded hover:text-[var(--color-text-primary)] disabled:opacity-40 transition-colors"
+              title={'Previous version'}
+            >
+              <ChevronLeft className="w-3.5 h-3.5" />
+            </button>
+            <span className="tabular-nums">{branch.index + 1}/{branch.total}</span>
+            <button
+              onClick={() => onSwitchBranch?.(message.id, 1)}
+              disabled={!onSwitchBranch || branch.index === branch.total - 1}
+              className="p-0.5 rounded hover:text-[var(--color-text-primary)] disabled:opacity-40 transition-colors"
+              title={'Next version'}
+            >
+              <ChevronRight className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+
         {!isEditing && !isStreaming && message.content.length > 0 && onEditMessage && (
           <div className="absolute -bottom-2 -right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
             <ActionButtons
@@ -3,11 +3,14 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Layers, Loader2 } from 'lucide-react';
 import { Note } from '../types';
 import { formatDate } from '../utils/helpers';
 
 interface NoteViewProps {
   note: Note | null;
+  onGenerateFlashcards?: (note: Note) => void;
+  isFlashcardLoading?: boolean;
 }
 
 const CodeBlock = React.memo(({ language, children }: { language: string; children: string; }) => {
@@ -24,7 +27,7 @@ const CodeBlock = React.memo(({ language, children }: { language: string; childr
   );
 });
 
-export function NoteView({ note }: NoteViewProps) {
+export function NoteView({ note, onGenerateFlashcards, isFlashcardLoading = false }: NoteViewProps) {
   const markdownComponents = useMemo(() => ({
     code({ node, inline, className, children, ...props }: any) {
       const match = /language-(\w+)/.exec(className || '');
@@ -122,6 +125,16 @@ export function NoteView({ note }: NoteViewProps) {
                 From Chat
               </span>
             )}
+            {onGenerateFlashcards && (
+              <button
+                onClick={() => onGenerateFlashcards(note)}
+                disabled={isFlashcardLoading || !note.content.trim()}
+                className="interactive-button ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-[var(--color-card)] border border-[var(--color-border)] hover:text-[var(--color-text-primary)] disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isFlashcardLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Layers className="w-3.5 h-3.5" />}
+                Make flashcards
+              </button>
+            )}
           </div>
         </div>
 
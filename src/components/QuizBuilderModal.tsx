@@ -0,0 +1,282 @@
+// src/components/QuizBuilderModal.tsx
+import { useMemo, useState } from 'react';
+import { ClipboardCheck, Loader2, X } from 'lucide-react';
+import { Conversation, Flowchart, Note, QuestionType, QuizDifficulty, QuizOptions, QuizSource } from '../types';
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS } from '../services/quizGrading';
+import { MAX_QUESTIONS, MIN_QUESTIONS } from '../services/quizSources';
+import { getActivePath } from '../utils/conversationTree';
+import { getMessageText } from '../utils/attachments';
+
+interface QuizBuilderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversation: Conversation | undefined; // the open conversation, if any
+  notes: Note[];
+  flowcharts: Flowchart[];
+  initialOptions: QuizOptions; // the choices from the last quiz
+  isGenerating: boolean;
+  onGenerate: (source: QuizSource, options: QuizOptions) => void;
+}
+
+type SourceKind = QuizSource['kind'];
+
+const SOURCE_LABELS: Record<SourceKind, string> = {
+  conversation: 'This conversation',
+  messages: 'Selected messages',
+  notes: 'Notes',
+  flowchart: 'A flowchart',
+};
+
+const DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+const EXAM_MINUTES = [5, 10, 15, 20, 30, 45, 60, 90];
+const DEFAULT_EXAM_MINUTES = 15;
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-xs font-semibold border transition-colors ${
+    active
+      ? 'bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] border-transparent'
+      : 'border-[var(--color-border)] text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)]'
+  } disabled:opacity-40 disabled:cursor-not-allowed`;
+
+function toggle<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter(value => value !== item) : [...list, item];
+}
+
+// Mounted each time the dialog opens, so every quiz starts from the last quiz's choices
+function QuizBuilder({
+  onClose,
+  conversation,
+  notes,
+  flowcharts,
+  initialOptions,
+  isGenerating,
+  onGenerate,
+}: Omit<QuizBuilderModalProps, 'isOpen'>) {
+  const messages = useMemo(() => (conversation ? getActivePath(conversation) : []), [conversation]);
+  const hasConversation = messages.length >= 2;
+
+  // Quiz the open conversation when there is one
+  const [sourceKind, setSourceKind] = useState<SourceKind>(
+    hasConversation ? 'conversation' : notes.length > 0 ? 'notes' : 'flowchart'
+  );
+  const [messageIds, setMessageIds] = useState<string[]>([]);
+  const [noteIds, setNoteIds] = useState<string[]>([]);
+  const [flowchartId, setFlowchartId] = useState(flowcharts[0]?.id ?? '');
+  const [questionCount, setQuestionCount] = useState(initialOptions.questionCount);
+  const [difficulty, setDifficulty] = useState(initialOptions.difficulty);
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(initialOptions.questionTypes);
+  const [focusTopics, setFocusTopics] = useState(initialOptions.focusTopics.join(', '));
+  const [isTimed, setIsTimed] = useState(initialOptions.timeLimitMinutes !== undefined);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState(initialOptions.timeLimitMinutes ?? DEFAULT_EXAM_MINUTES);
+
+  const available: Record<SourceKind, boolean> = {
+    conversation: hasConversation,
+    messages: hasConversation,
+    notes: notes.length > 0,
+    flowchart: flowcharts.length > 0,
+  };
+
+  const buildSource = (): QuizSource | null => {
+    switch (sourceKind) {
+      case 'conversation':
+        return conversation ? { kind: 'conversation', conversationId: conversation.id } : null;
+      case 'messages':
+        return conversation && messageIds.length > 0 ? { kind: 'messages', conversationId: conversation.id, messageIds } : null;
+      case 'notes':
+        return noteIds.length > 0 ? { kind: 'notes', noteIds } : null;
+      case 'flowchart':
+        return flowchartId ? { kind: 'flowchart', flowchartId } : null;
+    }
+  };
+
+  const source = available[sourceKind] ? buildSource() : null;
+  const canGenerate = !!source && questionTypes.length > 0 && !isGenerating;
+
+  const handleGenerate = () => {
+    if (!source || !canGenerate) return;
+    onGenerate(source, {
+      questionCount,
+      difficulty,
+      questionTypes,
+      focusTopics: focusTopics.split(',').map(topic => topic.trim()).filter(Boolean),
+      timeLimitMinutes: isTimed ? timeLimitMinutes : undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+      <div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full max-w-lg bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-lg shadow-2xl flex flex-col animate-fade-in-up">
+        {/* Header */}
+        <div className="p-6 flex items-center justify-between border-b border-[var(--color-border)]">
+          <div className="flex items-center gap-3">
+            <ClipboardCheck className="w-5 h-5" />
+            <h2 className="text-xl font-bold">New Quiz</h2>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-[var(--color-card)] transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 max-h-[65vh] overflow-y-auto">
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Quiz me on</h3>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(SOURCE_LABELS) as SourceKind[]).map(kind => (
+                <button key={kind} onClick={() => setSourceKind(kind)} disabled={!available[kind]} className={chipClass(sourceKind === kind)}>
+                  {SOURCE_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+
+            {sourceKind === 'messages' && (
+              <ul className="max-h-48 overflow-y-auto space-y-1 border border-[var(--color-border)] rounded-lg p-2">
+                {messages.map(message => (
+                  <li key={message.id}>
+                    <label className="flex items-start gap-2 p-1.5 rounded hover:bg-[var(--color-card)] cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={messageIds.includes(message.id)}
+                        onChange={() => setMessageIds(prev => toggle(prev, message.id))}
+                        className="mt-0.5"
+                      />
+                      <span className="text-xs min-w-0">
+                        <span className="font-semibold">{message.role === 'user' ? 'You' : 'Tutor'}: </span>
+                        <span className="text-[var(--color-text-secondary)] line-clamp-2">{getMessageText(message)}</span>
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {sourceKind === 'notes' && (
+              <ul className="max-h-48 overflow-y-auto space-y-1 border border-[var(--color-border)] rounded-lg p-2">
+                {notes.map(note => (
+                  <li key={note.id}>
+                    <label className="flex items-center gap-2 p-1.5 rounded hover:bg-[var(--color-card)] cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={noteIds.includes(note.id)}
+                        onChange={() => setNoteIds(prev => toggle(prev, note.id))}
+                      />
+                      <span className="text-sm truncate">{note.title}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {sourceKind === 'flowchart' && (
+              <select
+                value={flowchartId}
+                onChange={(e) => setFlowchartId(e.target.value)}
+                className="w-full p-2.5 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg text-sm"
+              >
+                {flowcharts.map(flowchart => (
+                  <option key={flowchart.id} value={flowchart.id}>{flowchart.title}</option>
+                ))}
+              </select>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Questions</h3>
+              <span className="text-sm text-[var(--color-text-secondary)]">{questionCount}</span>
+            </div>
+            <input
+              type="range"
+              min={MIN_QUESTIONS}
+              max={MAX_QUESTIONS}
+              value={questionCount}
+              onChange={(e) => setQuestionCount(Number(e.target.value))}
+              className="w-full"
+            />
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Difficulty</h3>
+            <div className="flex gap-2">
+              {DIFFICULTIES.map(level => (
+                <button key={level} onClick={() => setDifficulty(level)} className={`${chipClass(difficulty === level)} capitalize`}>
+                  {level}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Question types</h3>
+            <div className="flex flex-wrap gap-2">
+              {QUESTION_TYPES.map(type => (
+                <button key={type} onClick={() => setQuestionTypes(prev => toggle(prev, type))} className={chipClass(questionTypes.includes(type))}>
+                  {QUESTION_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+            {questionTypes.length === 0 && <p className="text-xs text-red-400">Pick at least one question type.</p>}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Focus topics <span className="font-normal text-[var(--color-text-secondary)]">(optional)</span></h3>
+            <input
+              type="text"
+              value={focusTopics}
+              onChange={(e) => setFocusTopics(e.target.value)}
+              placeholder="e.g. mitosis, cell cycle"
+              className="w-full p-2.5 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg text-sm"
+            />
+            <p className="text-xs text-[var(--color-text-secondary)]">Separate topics with commas. Leave empty to cover everything.</p>
+          </section>
+
+          <section className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-semibold cursor-pointer">
+              <input type="checkbox" checked={isTimed} onChange={(e) => setIsTimed(e.target.checked)} />
+              Timed exam
+            </label>
+            {isTimed && (
+              <select
+                value={timeLimitMinutes}
+                onChange={(e) => setTimeLimitMinutes(Number(e.target.value))}
+                className="w-full p-2.5 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg text-sm"
+              >
+                {EXAM_MINUTES.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+            )}
+            <p className="text-xs text-[var(--color-text-secondary)]">
+              Answer every question against the clock. Nothing is marked until you submit, and the exam submits itself when time runs out.
+            </p>
+          </section>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-[var(--color-border)] flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-lg hover:bg-[var(--color-card)] transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={!canGenerate}
+            className="interactive-button flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isGenerating && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isGenerating ? 'Generating...' : 'Generate quiz'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function QuizBuilderModal({ isOpen, ...props }: QuizBuilderModalProps) {
+  return isOpen ? <QuizBuilder {...props} /> : null;
+}
@@ -0,0 +1,57 @@
+// src/components/QuizDialog.tsx
+import { ReactNode } from 'react';
+import { X } from 'lucide-react';
+
+interface QuizDialogProps {
+  title: string;
+  progress: number; // 0-100, shown as the bar along the top
+  onClose: () => void;
+  headerExtra?: ReactNode; // e.g. the exam countdown
+  footer: ReactNode;
+  children: ReactNode;
+}
+
+// The frame shared by practice quizzes and exams
+export function QuizDialog({ title, progress, onClose, headerExtra, footer, children }: QuizDialogProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 bg-black/70 backdrop-blur-sm animate-fadeIn">
+      <div
+        className="relative w-full max-w-2xl bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-2xl shadow-2xl flex flex-col animate-fade-in-up overflow-hidden max-h-[90vh] max-h-[90dvh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="quiz-title"
+      >
+        {/* Progress Bar */}
+        <div className="absolute top-0 left-0 w-full bg-[var(--color-card)] h-1.5">
+          <div
+            className="bg-[var(--color-accent-bg)] h-1.5 rounded-r-full transition-all duration-300 ease-out"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+
+        {/* Header */}
+        <div className="p-4 sm:p-5 flex items-center justify-between gap-3 border-b border-[var(--color-border)]">
+          <h2 id="quiz-title" className="text-lg font-bold">
+            {title}
+          </h2>
+          <div className="flex items-center gap-3">
+            {headerExtra}
+            <button onClick={onClose} className="interactive-button w-8 h-8 flex items-center justify-center rounded-full hover:bg-[var(--color-card)] transition-colors" aria-label="Close quiz">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 sm:p-6 md:p-8 overflow-y-auto">
+          {children}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-[var(--color-border)] bg-[var(--color-bg)]/50 mt-auto">
+          {footer}
+        </div>
+      </div>
+    </div>
+  );
+}
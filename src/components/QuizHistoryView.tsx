@@ -0,0 +1,224 @@
+// src/components/QuizHistoryView.tsx
+import { useMemo } from 'react';
+import { CheckCircle, XCircle, Lightbulb, AlertTriangle, Clock, Flag } from 'lucide-react';
+import { QuizQuestion, StudySession } from '../types';
+import { REPEATED_MISS_THRESHOLD, scorePercent, summarizeQuizHistory } from '../services/quizStats';
+import { QUESTION_TYPE_LABELS, describeCorrectAnswer } from '../services/quizGrading';
+import { formatDate, formatDuration } from '../utils/helpers';
+
+interface QuizHistoryViewProps {
+  sessions: StudySession[];
+  session: StudySession | null; // attempt to review; the overview is shown when null
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg p-4 text-center">
+      <div className="text-2xl font-bold text-[var(--color-text-primary)]">{value}</div>
+      <div className="text-xs text-[var(--color-text-secondary)] mt-1">{label}</div>
+    </div>
+  );
+}
+
+function Overview({ sessions }: { sessions: StudySession[] }) {
+  const summary = useMemo(() => summarizeQuizHistory(sessions), [sessions]);
+  const weakConcepts = summary.concepts.filter(concept => concept.missed > 0);
+  const masteredCount = summary.concepts.length - weakConcepts.length;
+
+  if (summary.attempts === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-8">
+        <div className="text-center max-w-lg space-y-2">
+          <h2 className="text-2xl font-bold text-[var(--color-text-primary)]">No quizzes yet</h2>
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            Generate a quiz from a conversation. Every quiz you finish is saved here with your answers.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-[var(--color-bg)] overflow-y-auto scroll-container">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 sm:py-8 w-full space-y-8">
+        <h1 className="text-2xl sm:text-3xl font-bold text-[var(--color-text-primary)]">Quiz history</h1>
+
+        <div className="grid grid-cols-3 gap-3">
+          <StatCard label="Quizzes finished" value={String(summary.attempts)} />
+          <StatCard label="Average score" value={`${summary.averagePercent}%`} />
+          <StatCard label="Best score" value={`${summary.bestPercent}%`} />
+        </div>
+
+        <section>
+          <h2 className="text-lg font-semibold mb-1">Concepts to review</h2>
+          <p className="text-xs text-[var(--color-text-secondary)] mb-4">
+            Answers grouped by concept across all your quizzes, most missed first.
+            {masteredCount > 0 && ` ${masteredCount} concept${masteredCount === 1 ? ' was' : 's were'} answered correctly every time.`}
+          </p>
+          {weakConcepts.length === 0 ? (
+            <p className="text-sm text-[var(--color-text-secondary)]">No mistakes so far. Nice work!</p>
+          ) : (
+            <ul className="space-y-2">
+              {weakConcepts.map(concept => {
+                const repeated = concept.missed >= REPEATED_MISS_THRESHOLD;
+                const accuracy = Math.round(((concept.answered - concept.missed) / concept.answered) * 100);
+                return (
+                  <li key={concept.concept} className="p-3 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg">
+                    <div className="flex items-center gap-2">
+                      {repeated && <AlertTriangle className="w-4 h-4 flex-shrink-0 text-yellow-400" />}
+                      <span className="flex-1 min-w-0 text-sm font-semibold truncate">{concept.concept}</span>
+                      <span className="text-xs text-[var(--color-text-secondary)] flex-shrink-0">
+                        missed {concept.missed} of {concept.answered}
+                      </span>
+                    </div>
+                    <div className="mt-2 h-1.5 bg-[var(--color-border)] rounded-full overflow-hidden">
+                      <div className="h-full bg-green-500/70" style={{ width: `${accuracy}%` }} />
+                    </div>
+                    {repeated && (
+                      <ul className="mt-2 space-y-1">
+                        {concept.missedQuestions.slice(0, 3).map(question => (
+                          <li key={question.id} className="text-xs text-[var(--color-text-secondary)] truncate" title={question.question}>
+                            · {question.question}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+// Options with the correct ones in green and wrongly chosen ones in red
+function OptionList({ question }: { question: QuizQuestion }) {
+  const isMultiSelect = question.type === 'multi-select';
+  return (
+    <ul className="space-y-1.5 pl-7">
+      {question.options.map((option, optionIndex) => {
+        const isCorrectAnswer = isMultiSelect
+          ? question.correctAnswers?.includes(optionIndex) ?? false
+          : optionIndex === question.correctAnswer;
+        const isChosen = isMultiSelect
+          ? question.userSelection?.includes(optionIndex) ?? false
+          : optionIndex === question.userAnswer;
+        return (
+          <li
+            key={optionIndex}
+            className={`px-3 py-2 rounded-lg border text-sm ${
+              isCorrectAnswer
+                ? 'bg-green-900/30 border-green-500/50 text-green-300'
+                : isChosen
+                  ? 'bg-red-900/30 border-red-500/50 text-red-300'
+                  : 'border-[var(--color-border)] text-[var(--color-text-secondary)]'
+            }`}
+          >
+            <span className="font-bold mr-2">{String.fromCharCode(65 + optionIndex)}</span>
+            {option}
+            {isChosen && <span className="ml-2 text-xs opacity-80">(your answer)</span>}
+            {isMultiSelect && isCorrectAnswer && !isChosen && <span className="ml-2 text-xs opacity-80">(missed)</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// Typed and ordered answers next to the expected one
+function AnswerComparison({ question }: { question: QuizQuestion }) {
+  const given = question.type === 'ordering'
+    ? (question.userOrder || []).map(index => question.options[index]).join(' → ')
+    : question.userText;
+  return (
+    <div className="pl-7 space-y-1.5 text-sm">
+      <p className={question.isCorrect ? 'text-green-300' : 'text-red-300'}>
+        <span className="text-[var(--color-text-secondary)]">Your answer: </span>
+        {given || '(no answer)'}
+      </p>
+      {question.feedback && <p className="text-[var(--color-text-secondary)]">{question.feedback}</p>}
+      {!question.isCorrect && (
+        <p className="text-[var(--color-text-secondary)]">
+          {question.type === 'short-answer' ? 'A full answer covers: ' : 'Answer: '}
+          <span className="text-[var(--color-text-primary)]">{describeCorrectAnswer(question)}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+function AttemptReview({ session }: { session: StudySession }) {
+  return (
+    <div className="flex-1 flex flex-col h-full bg-[var(--color-bg)] overflow-y-auto scroll-container">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 sm:py-8 w-full">
+        <div className="mb-6 pb-4 border-b border-[var(--color-border)]">
+          <h1 className="text-2xl sm:text-3xl font-bold text-[var(--color-text-primary)] mb-2 leading-tight">{session.title}</h1>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-[var(--color-text-secondary)]">
+            <span>Finished {formatDate(session.updatedAt)}</span>
+            <span className="px-2 py-1 bg-[var(--color-card)] rounded-full text-xs font-semibold">
+              {session.score} / {session.totalQuestions} · {scorePercent(session)}%
+            </span>
+            {session.exam && (
+              <span className="flex items-center gap-1.5 px-2 py-1 bg-[var(--color-card)] rounded-full text-xs font-semibold">
+                <Clock className="w-3.5 h-3.5" />
+                Exam · {formatDuration(session.exam.elapsedSeconds ?? 0)} of {formatDuration(session.exam.timeLimitSeconds)}
+                {session.exam.timedOut && ' · timed out'}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <ol className="space-y-6">
+          {session.questions.map((question, index) => (
+            <li key={question.id}>
+              <div className="flex items-start gap-2 mb-3">
+                {question.isCorrect
+                  ? <CheckCircle className="w-5 h-5 flex-shrink-0 text-green-400 mt-0.5" />
+                  : <XCircle className="w-5 h-5 flex-shrink-0 text-red-400 mt-0.5" />}
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold">{index + 1}. {question.question}</p>
+                  <div className="flex flex-wrap gap-1.5 mt-1">
+                    {question.concept && (
+                      <span className="px-2 py-0.5 bg-[var(--color-card)] rounded-full text-xs text-[var(--color-text-secondary)]">
+                        {question.concept}
+                      </span>
+                    )}
+                    <span className="px-2 py-0.5 rounded-full text-xs text-[var(--color-text-secondary)] border border-[var(--color-border)]">
+                      {QUESTION_TYPE_LABELS[question.type]}
+                    </span>
+                    {question.timeSpentSeconds !== undefined && (
+                      <span className="px-2 py-0.5 rounded-full text-xs text-[var(--color-text-secondary)] border border-[var(--color-border)] tabular-nums">
+                        {formatDuration(question.timeSpentSeconds)}
+                      </span>
+                    )}
+                    {question.flagged && (
+                      <span className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs text-yellow-300 border border-yellow-500/40">
+                        <Flag className="w-3 h-3" /> Flagged
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+              {question.type === 'multiple-choice' || question.type === 'true-false' || question.type === 'multi-select'
+                ? <OptionList question={question} />
+                : <AnswerComparison question={question} />}
+              {question.explanation && (
+                <div className="mt-3 ml-7 p-3 rounded-lg bg-[var(--color-card)] border border-[var(--color-border)] flex items-start gap-2">
+                  <Lightbulb className="w-4 h-4 text-yellow-400 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-[var(--color-text-secondary)]">{question.explanation}</p>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
+
+export function QuizHistoryView({ sessions, session }: QuizHistoryViewProps) {
+  return session ? <AttemptReview session={session} /> : <Overview sessions={sessions} />;
+}
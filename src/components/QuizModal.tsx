@@ -1,67 +1,105 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { X, CheckCircle, XCircle, Lightbulb } from 'lucide-react';
-import { StudySession } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { CheckCircle, XCircle, Lightbulb, Loader2 } from 'lucide-react';
+import { QuizQuestion, StudySession } from '../types';
+import {
+  QUESTION_TYPE_LABELS,
+  QuizResponse,
+  applyResponse,
+  completeSession,
+  describeCorrectAnswer,
+  isAiGraded,
+  initialResponse,
+  isResponseComplete,
+} from '../services/quizGrading';
+import { QuizDialog } from './QuizDialog';
+import { QuizQuestionInput } from './QuizQuestionInput';
+import { ExamQuiz } from './ExamQuiz';
 
 interface QuizModalProps {
   isOpen: boolean;
   onClose: () => void;
   session: StudySession | null;
+  onComplete?: (session: StudySession) => void; // receives the attempt with its answers, to save it
+  onGradeShortAnswer: (question: QuizQuestion, answer: string, signal: AbortSignal) => Promise<{ isCorrect: boolean; feedback: string }>;
 }
 
+type PracticeQuizProps = Omit<QuizModalProps, 'isOpen' | 'session'> & { session: StudySession };
+
 const Confetti = () => (
   <div className="confetti-container">
     {[...Array(10)].map((_, i) => <div key={i} className="confetti-piece" />)}
   </div>
 );
 
-export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
+// Checks each answer as it is given, with feedback before moving on
+function PracticeQuiz({ onClose, session, onComplete, onGradeShortAnswer }: PracticeQuizProps) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
-  const [userAnswers, setUserAnswers] = useState<Record<string, string>>({});
+  const [response, setResponse] = useState<QuizResponse>(() => initialResponse(session.questions[0]));
+  const [answered, setAnswered] = useState<Record<string, QuizQuestion>>({});
   const [showFeedback, setShowFeedback] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradeError, setGradeError] = useState('');
   const [quizCompleted, setQuizCompleted] = useState(false);
   const [completionAnimation, setCompletionAnimation] = useState('');
-  const currentQuestion = session?.questions[currentQuestionIndex];
-
-  // Reset state when a new session is passed or the modal is closed
-  useEffect(() => {
-    if (isOpen) {
-      setCurrentQuestionIndex(0);
-      setSelectedAnswer(null);
-      setUserAnswers({});
-      setShowFeedback(false);
-      setQuizCompleted(false);
-      setCompletionAnimation('');
+  const gradeControllerRef = useRef<AbortController | null>(null);
+  const currentQuestion = session.questions[currentQuestionIndex];
+  const result = currentQuestion ? answered[currentQuestion.id] : undefined;
+
+  // Stop any grading request when the quiz is closed
+  useEffect(() => () => gradeControllerRef.current?.abort(), []);
+
+  const submitResponse = async (submitted: QuizResponse) => {
+    if (!currentQuestion || showFeedback || isGrading || !isResponseComplete(currentQuestion, submitted)) return;
+    let graded = applyResponse(currentQuestion, submitted);
+
+    if (isAiGraded(graded)) {
+      const controller = new AbortController();
+      gradeControllerRef.current = controller;
+      setIsGrading(true);
+      setGradeError('');
+      try {
+        graded = { ...graded, ...(await onGradeShortAnswer(currentQuestion, graded.userText || '', controller.signal)) };
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          setGradeError(error instanceof Error ? error.message : 'Could not grade this answer.');
+        }
+        return;
+      } finally {
+        if (!controller.signal.aborted) setIsGrading(false);
+      }
     }
-  }, [isOpen, session]);
 
-  const handleAnswerSelect = (option: string) => {
-    if (showFeedback) return;
-    setSelectedAnswer(option);
-    setUserAnswers(prev => ({ ...prev, [currentQuestion!.id]: option }));
+    setAnswered(prev => ({ ...prev, [currentQuestion.id]: graded }));
     setShowFeedback(true);
   };
 
+  // Multiple choice and true/false are checked as soon as an option is picked
+  const checksOnSelect = currentQuestion?.type === 'multiple-choice' || currentQuestion?.type === 'true-false';
+
+  const handleResponseChange = (next: QuizResponse) => {
+    setResponse(next);
+    if (checksOnSelect) submitResponse(next);
+  };
+
   const handleNextQuestion = () => {
-    if (session && currentQuestionIndex < session.questions.length - 1) {
+    if (currentQuestionIndex < session.questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
-      setSelectedAnswer(null);
+      setResponse(initialResponse(session.questions[currentQuestionIndex + 1]));
       setShowFeedback(false);
+      setGradeError('');
     } else {
       setQuizCompleted(true);
+      onComplete?.(completeSession(session, session.questions.map(question => answered[question.id] || question)));
     }
   };
 
-  const score = useMemo(() => {
-    if (!session) return 0;
-    return session.questions.reduce((acc, question) => {
-      const correctAnswer = question.options[question.correctAnswer];
-      return userAnswers[question.id] === correctAnswer ? acc + 1 : acc;
-    }, 0);
-  }, [quizCompleted, session, userAnswers]);
+  const score = useMemo(
+    () => Object.values(answered).filter(question => question.isCorrect).length,
+    [answered]
+  );
 
   const scorePercentage = useMemo(() => {
-    if (!session || session.questions.length === 0) return 0;
+    if (session.questions.length === 0) return 0;
     return Math.round((score / session.questions.length) * 100);
   }, [score, session]);
   
@@ -85,57 +123,45 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
     return "Keep studying! You'll get it next time.";
   }, [scorePercentage]);
 
-  if (!isOpen || !session) return null;
-
-  const progress = ((currentQuestionIndex + 1) / session.questions.length) * 100;
-
   const renderQuizContent = () => {
     if (!currentQuestion) return null;
     return (
-      <div className="animate-fadeIn">
+      <div key={currentQuestion.id} className="animate-fadeIn">
         <p className="mb-4 text-center">
           <span className="bg-[var(--color-card)] px-3 py-1 rounded-full text-sm font-semibold text-[var(--color-text-secondary)]">
-            Question {currentQuestionIndex + 1} / {session.questions.length}
+            Question {currentQuestionIndex + 1} / {session.questions.length} · {QUESTION_TYPE_LABELS[currentQuestion.type]}
           </span>
         </p>
         <h3 className="text-xl md:text-2xl font-bold text-center text-[var(--color-text-primary)] mb-8 leading-tight">
           {currentQuestion.question}
         </h3>
 
-        <div className="space-y-3">
-          {currentQuestion.options?.map((option, index) => {
-            const isSelected = selectedAnswer === option;
-            const isCorrectAnswer = currentQuestion.correctAnswer === index;
-            let buttonClass = 'bg-[var(--color-card)] border-transparent hover:bg-[var(--color-border)]';
-
-            if (showFeedback) {
-              if (isCorrectAnswer) {
-                buttonClass = 'bg-green-900/50 border-green-500/60 text-green-300';
-              } else if (isSelected && !isCorrectAnswer) {
-                buttonClass = 'bg-red-900/50 border-red-500/60 text-red-300';
-              } else {
-                 buttonClass = 'bg-[var(--color-card)] border-transparent opacity-60';
-              }
-            }
-            return (
-              <button
-                key={option}
-                onClick={() => handleAnswerSelect(option)}
-                disabled={showFeedback}
-                className={`w-full text-left p-4 border rounded-lg transition-all duration-200 text-base font-semibold flex items-center justify-between disabled:cursor-not-allowed group ${buttonClass}`}
-              >
-                <div className="flex items-center gap-4">
-                  <div className={`flex-shrink-0 w-6 h-6 rounded-md flex items-center justify-center text-sm font-bold ${showFeedback && isCorrectAnswer ? 'bg-green-500/80 text-white' : 'bg-[var(--color-border)] group-hover:bg-white/10'}`}>
-                    {String.fromCharCode(65 + index)}
-                  </div>
-                  <span>{option}</span>
-                </div>
-                {showFeedback && isCorrectAnswer && <CheckCircle className="w-5 h-5 text-green-400" />}
-                {showFeedback && isSelected && !isCorrectAnswer && <XCircle className="w-5 h-5 text-red-400" />}
-              </button>
-            );
-          })}
-        </div>
+        <QuizQuestionInput
+          question={currentQuestion}
+          response={response}
+          onChange={handleResponseChange}
+          onSubmit={() => submitResponse(response)}
+          result={showFeedback ? result : undefined}
+          disabled={isGrading}
+        />
+
+        {gradeError && <p className="mt-4 text-sm text-red-400">{gradeError}</p>}
+
+        {showFeedback && result && !checksOnSelect && (
+          <div className={`mt-6 flex items-start gap-2 text-sm ${result.isCorrect ? 'text-green-300' : 'text-red-300'}`}>
+            {result.isCorrect ? <CheckCircle className="w-5 h-5 flex-shrink-0" /> : <XCircle className="w-5 h-5 flex-shrink-0" />}
+            <div>
+              <p className="font-semibold">{result.isCorrect ? 'Correct!' : 'Not quite.'}</p>
+              {result.feedback && <p className="mt-1 text-[var(--color-text-secondary)]">{result.feedback}</p>}
+              {!result.isCorrect && result.type !== 'multi-select' && (
+                <p className="mt-1 text-[var(--color-text-secondary)]">
+                  {result.type === 'short-answer' ? 'A full answer covers: ' : 'Answer: '}
+                  {describeCorrectAnswer(result)}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
 
         {showFeedback && currentQuestion.explanation && (
           <div className="mt-8 p-4 rounded-lg bg-[var(--color-bg)] animate-fade-in-up border border-[var(--color-border)] flex items-start gap-3">
@@ -159,57 +185,51 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
         {score} <span className="text-2xl sm:text-3xl text-[var(--color-text-secondary)]">/ {session.questions.length}</span>
       </p>
       <p className="font-semibold text-lg">{scorePercentage}%</p>
+      {onComplete && (
+        <p className="text-xs text-[var(--color-text-secondary)] mt-4">Saved to your quiz history.</p>
+      )}
     </div>
   );
 
+  const progress = ((currentQuestionIndex + 1) / session.questions.length) * 100;
+
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 bg-black/70 backdrop-blur-sm animate-fadeIn">
-      <div
-        className="relative w-full max-w-2xl bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-2xl shadow-2xl flex flex-col animate-fade-in-up overflow-hidden max-h-[90vh] max-h-[90dvh]"
-        role="dialog"
-        aria-modal="true"
-        aria-labelledby="quiz-title"
-      >
-        {/* Progress Bar */}
-        <div className="absolute top-0 left-0 w-full bg-[var(--color-card)] h-1.5">
-          <div
-            className="bg-[var(--color-accent-bg)] h-1.5 rounded-r-full transition-all duration-300 ease-out"
-            style={{ width: `${quizCompleted ? 100 : progress}%` }}
-          />
-        </div>
-
-        {/* Header */}
-        <div className="p-4 sm:p-5 flex items-center justify-between border-b border-[var(--color-border)]">
-          <h2 id="quiz-title" className="text-lg font-bold">
-            Study Quiz
-          </h2>
-          <button onClick={onClose} className="interactive-button w-8 h-8 flex items-center justify-center rounded-full hover:bg-[var(--color-card)] transition-colors" aria-label="Close quiz">
-            <X className="w-5 h-5" />
-          </button>
-        </div>
-
-        {/* Content */}
-        <div className="p-4 sm:p-6 md:p-8 overflow-y-auto">
-          {quizCompleted ? renderCompletedContent() : renderQuizContent()}
-        </div>
-
-        {/* Footer */}
-        <div className="flex justify-end p-4 border-t border-[var(--color-border)] bg-[var(--color-bg)]/50 mt-auto">
-          {quizCompleted ? (
-            <button onClick={onClose} className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
-              Finish
-            </button>
-          ) : (
-            <button
-              onClick={handleNextQuestion}
-              disabled={!showFeedback}
-              className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              Next
-            </button>
-          )}
-        </div>
-      </div>
-    </div>
+    <QuizDialog
+      title="Study Quiz"
+      progress={quizCompleted ? 100 : progress}
+      onClose={onClose}
+      footer={quizCompleted ? (
+        <button onClick={onClose} className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
+          Finish
+        </button>
+      ) : !showFeedback && !checksOnSelect && currentQuestion ? (
+        <button
+          onClick={() => submitResponse(response)}
+          disabled={isGrading || !isResponseComplete(currentQuestion, response)}
+          className="w-full sm:w-auto interactive-button flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isGrading && <Loader2 className="w-4 h-4 animate-spin" />}
+          {isGrading ? 'Grading...' : 'Check answer'}
+        </button>
+      ) : (
+        <button
+          onClick={handleNextQuestion}
+          disabled={!showFeedback}
+          className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Next
+        </button>
+      )}
+    >
+      {quizCompleted ? renderCompletedContent() : renderQuizContent()}
+    </QuizDialog>
   );
 }
+
+// Sessions with exam timing run as a timed exam; the rest check each answer as it is given
+export function QuizModal({ isOpen, session, ...props }: QuizModalProps) {
+  if (!isOpen || !session) return null;
+  return session.exam
+    ? <ExamQuiz key={session.id} session={session} exam={session.exam} {...props} />
+    : <PracticeQuiz key={session.id} session={session} {...props} />;
+}
@@ -0,0 +1,173 @@
+// src/components/QuizQuestionInput.tsx
+import { CheckCircle, XCircle, ArrowUp, ArrowDown } from 'lucide-react';
+import { QuizQuestion } from '../types';
+import { QuizResponse } from '../services/quizGrading';
+
+interface QuizQuestionInputProps {
+  question: QuizQuestion;
+  response: QuizResponse;
+  onChange: (response: QuizResponse) => void;
+  onSubmit?: () => void; // Enter in a fill-in-the-blank box
+  result?: QuizQuestion; // the graded copy; answers are locked and marked once set
+  disabled?: boolean;
+}
+
+/**
+ * The answer area for one question, shaped by its type. Used for practice
+ * quizzes, which pass `result` after each answer, and exams, which never do.
+ */
+export function QuizQuestionInput({ question, response, onChange, onSubmit, result, disabled = false }: QuizQuestionInputProps) {
+  const showFeedback = !!result;
+  const locked = showFeedback || disabled;
+
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return (
+        <div className="space-y-3">
+          {question.options.map((option, index) => {
+            const isSelected = response.choice === index;
+            const isCorrectAnswer = question.correctAnswer === index;
+            let buttonClass = isSelected
+              ? 'bg-[var(--color-border)] border-[var(--color-text-secondary)]'
+              : 'bg-[var(--color-card)] border-transparent hover:bg-[var(--color-border)]';
+
+            if (showFeedback) {
+              if (isCorrectAnswer) {
+                buttonClass = 'bg-green-900/50 border-green-500/60 text-green-300';
+              } else if (isSelected && !isCorrectAnswer) {
+                buttonClass = 'bg-red-900/50 border-red-500/60 text-red-300';
+              } else {
+                 buttonClass = 'bg-[var(--color-card)] border-transparent opacity-60';
+              }
+            }
+            return (
+              <button
+                key={option}
+                onClick={() => onChange({ choice: index })}
+                disabled={locked}
+                className={`w-full text-left p-4 border rounded-lg transition-all duration-200 text-base font-semibold flex items-center justify-between disabled:cursor-not-allowed group ${buttonClass}`}
+              >
+                <div className="flex items-center gap-4">
+                  <div className={`flex-shrink-0 w-6 h-6 rounded-md flex items-center justify-center text-sm font-bold ${showFeedback && isCorrectAnswer ? 'bg-green-500/80 text-white' : 'bg-[var(--color-border)] group-hover:bg-white/10'}`}>
+                    {String.fromCharCode(65 + index)}
+                  </div>
+                  <span>{option}</span>
+                </div>
+                {showFeedback && isCorrectAnswer && <CheckCircle className="w-5 h-5 text-green-400" />}
+                {showFeedback && isSelected && !isCorrectAnswer && <XCircle className="w-5 h-5 text-red-400" />}
+              </button>
+            );
+          })}
+        </div>
+      );
+
+    case 'multi-select':
+      return (
+        <div className="space-y-3">
+          {question.options.map((option, index) => {
+            const selection = response.selection || [];
+            const isSelected = selection.includes(index);
+            const isCorrectAnswer = question.correctAnswers?.includes(index) ?? false;
+            let buttonClass = isSelected
+              ? 'bg-[var(--color-border)] border-[var(--color-text-secondary)]'
+              : 'bg-[var(--color-card)] border-transparent hover:bg-[var(--color-border)]';
+
+            if (showFeedback) {
+              if (isCorrectAnswer) {
+                buttonClass = `bg-green-900/50 border-green-500/60 text-green-300 ${isSelected ? '' : 'border-dashed'}`;
+              } else if (isSelected) {
+                buttonClass = 'bg-red-900/50 border-red-500/60 text-red-300';
+              } else {
+                buttonClass = 'bg-[var(--color-card)] border-transparent opacity-60';
+              }
+            }
+            return (
+              <button
+                key={option}
+                onClick={() => onChange({ selection: isSelected ? selection.filter(i => i !== index) : [...selection, index] })}
+                disabled={locked}
+                aria-pressed={isSelected}
+                className={`w-full text-left p-4 border rounded-lg transition-all duration-200 text-base font-semibold flex items-center justify-between disabled:cursor-not-allowed ${buttonClass}`}
+              >
+                <div className="flex items-center gap-4">
+                  <div className={`flex-shrink-0 w-6 h-6 rounded-md border-2 flex items-center justify-center ${isSelected ? 'border-current' : 'border-[var(--color-border)]'}`}>
+                    {isSelected && <CheckCircle className="w-4 h-4" />}
+                  </div>
+                  <span>{option}</span>
+                </div>
+                {showFeedback && isCorrectAnswer && !isSelected && <span className="text-xs opacity-80">missed</span>}
+              </button>
+            );
+          })}
+        </div>
+      );
+
+    case 'ordering': {
+      const order = response.order || [];
+      const moveItem = (position: number, offset: number) => {
+        const next = [...order];
+        [next[position], next[position + offset]] = [next[position + offset], next[position]];
+        onChange({ order: next });
+      };
+      return (
+        <ol className="space-y-2">
+          {order.map((optionIndex, position) => {
+            const inPlace = optionIndex === position;
+            const feedbackClass = showFeedback
+              ? inPlace ? 'bg-green-900/50 border-green-500/60 text-green-300' : 'bg-red-900/50 border-red-500/60 text-red-300'
+              : 'bg-[var(--color-card)] border-transparent';
+            return (
+              <li key={optionIndex} className={`flex items-center gap-3 p-3 border rounded-lg font-semibold ${feedbackClass}`}>
+                <span className="flex-shrink-0 w-6 h-6 rounded-md bg-[var(--color-border)] flex items-center justify-center text-sm">{position + 1}</span>
+                <span className="flex-1">{question.options[optionIndex]}</span>
+                {!locked && (
+                  <div className="flex gap-1">
+                    <button onClick={() => moveItem(position, -1)} disabled={position === 0} className="interactive-button p-1.5 rounded hover:bg-[var(--color-border)] disabled:opacity-30" aria-label="Move up">
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveItem(position, 1)} disabled={position === order.length - 1} className="interactive-button p-1.5 rounded hover:bg-[var(--color-border)] disabled:opacity-30" aria-label="Move down">
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      );
+    }
+
+    case 'fill-blank':
+    case 'short-answer': {
+      const feedbackClass = showFeedback
+        ? result.isCorrect ? 'border-green-500/60' : 'border-red-500/60'
+        : 'border-[var(--color-border)] focus:border-[var(--color-text-secondary)]';
+      const inputClass = `w-full p-4 bg-[var(--color-card)] border rounded-lg text-base outline-none transition-colors disabled:opacity-80 ${feedbackClass}`;
+      return question.type === 'fill-blank' ? (
+        <input
+          type="text"
+          value={response.text || ''}
+          onChange={e => onChange({ text: e.target.value })}
+          onKeyDown={e => {
+            if (e.key === 'Enter') onSubmit?.();
+          }}
+          disabled={locked}
+          placeholder="Type the missing word or phrase"
+          className={inputClass}
+          autoFocus
+        />
+      ) : (
+        <textarea
+          value={response.text || ''}
+          onChange={e => onChange({ text: e.target.value })}
+          disabled={locked}
+          placeholder="Answer in a sentence or two"
+          rows={4}
+          className={`${inputClass} resize-none`}
+          autoFocus
+        />
+      );
+    }
+  }
+}
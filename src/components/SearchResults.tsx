@@ -0,0 +1,165 @@
+// src/components/SearchResults.tsx
+import React, { useMemo, useState } from 'react';
+import { Book, GitBranch, MessageSquare, Search } from 'lucide-react';
+import { Conversation, Flowchart, Note, TutorMode } from '../types';
+import { ProviderDefinition } from '../services/providers';
+import { buildSearchIndex, HighlightedSnippet, search, SearchFilters, SearchKind, SearchResult } from '../services/search';
+import { formatDate } from '../utils/helpers';
+
+interface SearchResultsProps {
+  query: string;
+  conversations: Conversation[];
+  notes: Note[];
+  flowcharts: Flowchart[];
+  providers: ProviderDefinition[];
+  onOpenResult: (result: SearchResult) => void;
+}
+
+type DateRange = 'any' | 'week' | 'month' | 'year';
+
+const kindFilters: { id: SearchKind | 'all'; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'chat', label: 'Chats' },
+  { id: 'note', label: 'Notes' },
+  { id: 'flowchart', label: 'Flows' },
+];
+
+const rangeDays: Record<Exclude<DateRange, 'any'>, number> = { week: 7, month: 30, year: 365 };
+
+const modeNames: Record<TutorMode, string> = {
+  standard: 'Standard Tutor',
+  exam: 'Exam Coach',
+  mentor: 'Friendly Mentor',
+  creative: 'Creative Guide',
+};
+
+const kindIcons: Record<SearchKind, React.ElementType> = {
+  chat: MessageSquare,
+  note: Book,
+  flowchart: GitBranch,
+};
+
+function Highlighted({ snippet }: { snippet: HighlightedSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end]) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-400/30 text-inherit rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+}
+
+export function SearchResults({ query, conversations, notes, flowcharts, providers, onOpenResult }: SearchResultsProps) {
+  const [kind, setKind] = useState<SearchKind | 'all'>('all');
+  const [range, setRange] = useState<DateRange>('any');
+  const [model, setModel] = useState('');
+  const [tutorMode, setTutorMode] = useState<TutorMode | ''>('');
+
+  // Rebuilt only when the data changes, not on every keystroke
+  const index = useMemo(
+    () => buildSearchIndex(conversations, notes, flowcharts),
+    [conversations, notes, flowcharts]
+  );
+
+  // Model and mode only describe replies, so they are offered only when chats are included
+  const showReplyFilters = kind === 'chat' || kind === 'all';
+
+  const results = useMemo(() => {
+    const filters: SearchFilters = {
+      kind: kind === 'all' ? undefined : kind,
+      since: range === 'any' ? undefined : new Date(Date.now() - rangeDays[range] * 24 * 60 * 60 * 1000),
+      model: (showReplyFilters && model) || undefined,
+      tutorMode: (showReplyFilters && tutorMode) || undefined,
+    };
+    return search(index, query, filters);
+  }, [index, query, kind, range, model, tutorMode, showReplyFilters]);
+
+  const providerNames = useMemo(() => new Map(providers.map(p => [p.id, p.name])), [providers]);
+
+  const selectClassName = 'flex-1 min-w-0 bg-[var(--color-card)] border border-[var(--color-border)] rounded-md px-1.5 py-1 text-xs focus:outline-none';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {kindFilters.map(filter => (
+          <button
+            key={filter.id}
+            onClick={() => setKind(filter.id)}
+            className={`flex-1 px-2 py-1 rounded-md text-xs font-semibold transition-colors ${
+              kind === filter.id
+                ? 'bg-[var(--color-card)] text-[var(--color-text-primary)] border border-[var(--color-border)]'
+                : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] border border-transparent'
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        <select value={range} onChange={(e) => setRange(e.target.value as DateRange)} className={selectClassName} title="Date">
+          <option value="any">Any time</option>
+          <option value="week">Past week</option>
+          <option value="month">Past month</option>
+          <option value="year">Past year</option>
+        </select>
+        {showReplyFilters && (
+          <>
+            <select value={model} onChange={(e) => setModel(e.target.value)} className={selectClassName} title="Model">
+              <option value="">Any model</option>
+              {providers.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.name}</option>
+              ))}
+            </select>
+            <select value={tutorMode} onChange={(e) => setTutorMode(e.target.value as TutorMode | '')} className={selectClassName} title="Tutor mode">
+              <option value="">Any mode</option>
+              {(Object.keys(modeNames) as TutorMode[]).map(mode => (
+                <option key={mode} value={mode}>{modeNames[mode]}</option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+
+      {results.length === 0 ? (
+        <div className="text-center py-8 px-4">
+          <Search className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-3" />
+          <p className="text-sm text-[var(--color-text-secondary)]">No results found</p>
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {results.map(result => {
+            const { document } = result;
+            const Icon = kindIcons[document.kind];
+            return (
+              <li key={document.key}>
+                <button
+                  onClick={() => onOpenResult(result)}
+                  className="w-full text-left p-2 rounded-lg hover:bg-[var(--color-card)] transition-colors"
+                >
+                  <div className="flex items-center gap-2">
+                    <Icon className="w-3.5 h-3.5 flex-shrink-0 text-[var(--color-text-secondary)]" />
+                    <span className="flex-1 min-w-0 text-sm font-semibold truncate">{document.title}</span>
+                  </div>
+                  <p className="text-xs text-[var(--color-text-secondary)] mt-1 line-clamp-3 break-words">
+                    <Highlighted snippet={result.snippet} />
+                  </p>
+                  <p className="text-[10px] text-[var(--color-text-placeholder)] mt-1">
+                    {formatDate(document.date)}
+                    {document.model && ` · ${providerNames.get(document.model) || document.model}`}
+                    {document.tutorMode && ` · ${modeNames[document.tutorMode]}`}
+                  </p>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
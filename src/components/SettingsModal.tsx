@@ -1,21 +1,40 @@
 // src/components/SettingsModal.tsx
 
 import React, { useState } from 'react';
-import { X, Settings, Key, Download, Upload, Shield, Database, Eye, EyeOff, HelpCircle, Trash2, BookUser } from 'lucide-react';
-import { APISettings, TutorMode } from '../types';
+import { X, Settings, Key, Download, Upload, Shield, Database, Eye, EyeOff, HelpCircle, Trash2, BookUser, Plus, Server, BarChart3, Lock } from 'lucide-react';
+import { APISettings, ApiKeyField, Conversation, CustomEndpoint, Flowchart, GenerationSettings, FlashcardDeck, LibraryDocument, ModelPrice, Note, StudySession, TutorMode } from '../types';
 import { storageUtils } from '../utils/storage';
+import { BackupData, ParsedBackup, RestoreMode, createBackup, parseBackup, planRestore } from '../utils/backup';
+import { applySecrets, isVaultSupported, openVault } from '../utils/vault';
+import { exportAttachmentFiles, importAttachmentFiles } from '../utils/attachments';
+import { generateId } from '../utils/helpers';
+import { ProviderDefinition, formatHeaderLines, parseHeaderLines } from '../services/providers';
+import { formatCost, formatTokenCount, getModelPrice, summarizeMonthlyUsage } from '../services/tokenUsage';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   settings: APISettings;
   onSaveSettings: (settings: APISettings) => void;
+  conversations: Conversation[];
+  notes: Note[];
+  flowcharts: Flowchart[];
+  studySessions: StudySession[];
+  decks: FlashcardDeck[];
+  documents: LibraryDocument[];
+  providers: ProviderDefinition[];
+  onRestoreBackup: (data: BackupData) => void;
+  vaultState: 'none' | 'locked' | 'unlocked';
+  onEnableVault: (passphrase: string) => Promise<void>;
+  onDisableVault: () => Promise<void>;
+  onLockVault: () => void;
 }
 
 const apiInfo = {
   google: { name: 'Google AI', url: 'https://aistudio.google.com/app/apikey' },
   zhipu: { name: 'ZhipuAI', url: 'https://open.bigmodel.cn/' },
   mistral: { name: 'Mistral', url: 'https://console.mistral.ai/api-keys' },
+  anthropic: { name: 'Anthropic', url: 'https://console.anthropic.com/settings/keys' },
 };
 
 const tutorModes = [
@@ -25,16 +44,31 @@ const tutorModes = [
     { id: 'creative', name: 'Creative Guide', description: 'Helps with essays, storytelling, ideas.', emoji: '✍️' },
 ];
 
-type ActiveTab = 'general' | 'keys' | 'data';
+type ActiveTab = 'general' | 'keys' | 'usage' | 'data';
 
-export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: SettingsModalProps) {
+const restoreEntities = [
+  { key: 'conversations', label: 'Conversations' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'flowcharts', label: 'Flowcharts' },
+  { key: 'studySessions', label: 'Quiz results' },
+  { key: 'decks', label: 'Flashcard decks' },
+  { key: 'documents', label: 'Library documents' },
+] as const;
+
+export function SettingsModal({ isOpen, onClose, settings, onSaveSettings, conversations, notes, flowcharts, studySessions, decks, documents, providers, onRestoreBackup, vaultState, onEnableVault, onDisableVault, onLockVault }: SettingsModalProps) {
   const [localSettings, setLocalSettings] = useState<APISettings>(settings);
   const [visibleApis, setVisibleApis] = useState<Record<string, boolean>>({});
   const [activeTab, setActiveTab] = useState<ActiveTab>('general');
+  const [headerDrafts, setHeaderDrafts] = useState<Record<string, string>>({});
+  const [stopSequencesDraft, setStopSequencesDraft] = useState('');
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   React.useEffect(() => {
     setLocalSettings(settings);
+    setHeaderDrafts(Object.fromEntries(
+      settings.customEndpoints.map(endpoint => [endpoint.id, formatHeaderLines(endpoint.headers)])
+    ));
+    setStopSequencesDraft((settings.generation.stopSequences || []).join(', '));
   }, [settings]);
 
   const toggleApiVisibility = (id: string) => {
@@ -42,20 +76,96 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
   };
 
   const handleSave = () => {
-    onSaveSettings(localSettings);
+    const stopSequences = stopSequencesDraft.split(',').map(seq => seq.trim()).filter(Boolean);
+    onSaveSettings({
+      ...localSettings,
+      generation: { ...localSettings.generation, stopSequences: stopSequences.length ? stopSequences : undefined },
+      customEndpoints: localSettings.customEndpoints.map(endpoint => ({
+        ...endpoint,
+        headers: parseHeaderLines(headerDrafts[endpoint.id] || ''),
+      })),
+    });
+  };
+
+  const handleGenerationChange = (changes: Partial<GenerationSettings>) => {
+    setLocalSettings(prev => ({ ...prev, generation: { ...prev.generation, ...changes } }));
+  };
+
+  const handleEndpointOverrideChange = (providerId: string, url: string) => {
+    setLocalSettings(prev => {
+      const endpointOverrides = { ...prev.endpointOverrides };
+      if (url.trim()) {
+        endpointOverrides[providerId] = url.trim();
+      } else {
+        delete endpointOverrides[providerId];
+      }
+      return { ...prev, endpointOverrides };
+    });
+  };
+
+  const handlePriceChange = (providerId: string, changes: Partial<ModelPrice>) => {
+    setLocalSettings(prev => {
+      const current = getModelPrice(providerId, prev.prices) || { input: 0, output: 0 };
+      return { ...prev, prices: { ...prev.prices, [providerId]: { ...current, ...changes } } };
+    });
+  };
+
+  const monthlyUsage = React.useMemo(
+    () => summarizeMonthlyUsage(conversations, localSettings.prices),
+    [conversations, localSettings.prices]
+  );
+  const monthlyTotals = Object.values(monthlyUsage).reduce(
+    (sum, totals) => ({
+      tokens: sum.tokens + totals.promptTokens + totals.completionTokens,
+      cost: sum.cost + totals.cost,
+    }),
+    { tokens: 0, cost: 0 }
+  );
+
+  const handleAddEndpoint = () => {
+    const endpoint: CustomEndpoint = {
+      id: generateId(),
+      name: 'Local LLM',
+      baseUrl: 'http://localhost:11434/v1',
+      model: '',
+      apiKey: '',
+      headers: {},
+    };
+    setLocalSettings(prev => ({ ...prev, customEndpoints: [...prev.customEndpoints, endpoint] }));
+  };
+
+  const handleUpdateEndpoint = (id: string, changes: Partial<CustomEndpoint>) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      customEndpoints: prev.customEndpoints.map(endpoint =>
+        endpoint.id === id ? { ...endpoint, ...changes } : endpoint
+      ),
+    }));
+  };
+
+  const handleRemoveEndpoint = (id: string) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      customEndpoints: prev.customEndpoints.filter(endpoint => endpoint.id !== id),
+      selectedModel: prev.selectedModel === `custom:${id}` ? 'google' : prev.selectedModel,
+    }));
   };
   
   const handleTutorModeChange = (modeId: TutorMode) => {
     setLocalSettings(prev => ({ ...prev, selectedTutorMode: modeId }));
   };
 
-  const handleExportData = () => {
-    const data = {
-      conversations: storageUtils.getConversations(),
-      notes: storageUtils.getNotes(),
-      settings: storageUtils.getSettings(),
-      exportDate: new Date().toISOString(),
-    };
+  const [pendingBackup, setPendingBackup] = useState<ParsedBackup | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [restoreError, setRestoreError] = useState('');
+
+  const handleExportData = async () => {
+    const data = createBackup(
+      { conversations, notes, flowcharts, studySessions, decks, documents, settings },
+      await storageUtils.getEncryptedVault(),
+      await exportAttachmentFiles(conversations)
+    );
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -71,31 +181,115 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const data = JSON.parse(e.target?.result as string);
-        if (data.conversations) storageUtils.saveConversations(data.conversations);
-        if (data.notes) storageUtils.saveNotes(data.notes);
-        if (data.settings) {
-          setLocalSettings(data.settings);
-          storageUtils.saveSettings(data.settings);
-        }
-        alert('Data imported successfully! The app will now reload.');
-        window.location.reload();
+        setPendingBackup(parseBackup(e.target?.result as string, settings));
+        setRestoreMode('merge');
+        setBackupPassphrase('');
+        setRestoreError('');
       } catch (error) {
         console.error('Error importing data:', error);
-        alert('Failed to import data.');
+        alert(`Failed to import data. ${error instanceof Error ? error.message : ''}`);
       }
     };
     reader.readAsText(file);
     event.target.value = '';
   };
 
+  const restorePlan = pendingBackup
+    ? planRestore({ conversations, notes, flowcharts, studySessions, decks, documents, settings }, pendingBackup, restoreMode)
+    : null;
+
+  const handleConfirmRestore = async () => {
+    if (!restorePlan || !pendingBackup) return;
+    if (restoreMode === 'replace' && !confirm('Replace mode removes local items that are not in the backup. Continue?')) return;
+
+    let result = restorePlan.result;
+    if (restorePlan.replacesSettings && pendingBackup.vault && backupPassphrase) {
+      try {
+        const { secrets } = await openVault(pendingBackup.vault, backupPassphrase);
+        result = { ...result, settings: applySecrets(result.settings, secrets) };
+      } catch (error) {
+        setRestoreError(error instanceof Error ? error.message : 'Could not decrypt the API keys.');
+        return;
+      }
+    }
+
+    // Files first, so restored messages find their images and PDFs when they render
+    try {
+      await importAttachmentFiles(pendingBackup.attachments, result.conversations);
+    } catch (error) {
+      console.error('Error restoring attachment files:', error);
+    }
+    onRestoreBackup(result);
+    if (restorePlan.replacesSettings) setLocalSettings(result.settings);
+    setPendingBackup(null);
+  };
+
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [vaultConfirm, setVaultConfirm] = useState('');
+  const [vaultError, setVaultError] = useState('');
+  const [isVaultBusy, setIsVaultBusy] = useState(false);
+
+  const handleEnableVault = async () => {
+    if (vaultPassphrase.length < 8) {
+      setVaultError('Use at least 8 characters.');
+      return;
+    }
+    if (vaultPassphrase !== vaultConfirm) {
+      setVaultError('The passphrases do not match.');
+      return;
+    }
+    setIsVaultBusy(true);
+    try {
+      await onEnableVault(vaultPassphrase);
+      setVaultPassphrase('');
+      setVaultConfirm('');
+      setVaultError('');
+    } catch (error) {
+      console.error('Error enabling key encryption:', error);
+      setVaultError('Could not encrypt the API keys in this browser.');
+    } finally {
+      setIsVaultBusy(false);
+    }
+  };
+
+  const handleDisableVault = async () => {
+    if (!confirm('Remove the passphrase? API keys will be stored unencrypted on this device.')) return;
+    setIsVaultBusy(true);
+    try {
+      await onDisableVault();
+    } catch (error) {
+      console.error('Error removing key encryption:', error);
+    } finally {
+      setIsVaultBusy(false);
+    }
+  };
+
+  const [quarantinedCount, setQuarantinedCount] = useState(() => storageUtils.getQuarantine().length);
+
+  const handleExportQuarantine = () => {
+    const blob = new Blob([JSON.stringify(storageUtils.getQuarantine(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ai-tutor-recovered-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDiscardQuarantine = async () => {
+    if (window.confirm('Discard the unreadable data? Download it first if you may want to recover it.')) {
+      await storageUtils.clearQuarantine();
+      setQuarantinedCount(0);
+    }
+  };
+
   const triggerFileInput = () => {
     fileInputRef.current?.click();
   };
 
-  const handleClearData = () => {
+  const handleClearData = async () => {
     if (window.confirm('Are you sure you want to delete all conversations and settings? This action cannot be undone.')) {
-      storageUtils.clearAllData();
+      await storageUtils.clearAllData();
       alert('All data has been cleared. The app will now reload.');
       window.location.reload();
     }
@@ -134,9 +328,10 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
         </div>
 
         {/* Tabs */}
-        <div className="p-3 grid grid-cols-3 gap-2 border-b border-[var(--color-border)]">
+        <div className="p-3 grid grid-cols-4 gap-2 border-b border-[var(--color-border)]">
           <TabButton id="general" label="General" Icon={BookUser} />
           <TabButton id="keys" label="API Keys" Icon={Shield} />
+          <TabButton id="usage" label="Usage" Icon={BarChart3} />
           <TabButton id="data" label="Data" Icon={Database} />
         </div>
         
@@ -166,6 +361,108 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                   </button>
                 ))}
               </div>
+
+              <div className="pt-4 border-t border-[var(--color-border)] space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1">
+                    Generation
+                  </h3>
+                  <p className="text-xs text-[var(--color-text-secondary)]">
+                    Applied to every chat request. Leave a value on Default to use the model's own setting.
+                  </p>
+                </div>
+                {([
+                  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1 },
+                  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05 },
+                ] as const).map(({ key, label, min, max, step }) => (
+                  <div key={key}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <label htmlFor={`generation-${key}`} className="font-medium text-[var(--color-text-secondary)]">{label}</label>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-xs">{localSettings.generation[key] ?? 'Default'}</span>
+                        {localSettings.generation[key] !== undefined && (
+                          <button onClick={() => handleGenerationChange({ [key]: undefined })} className="text-xs text-[var(--color-text-placeholder)] hover:text-[var(--color-text-primary)]">
+                            Reset
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <input
+                      id={`generation-${key}`}
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={localSettings.generation[key] ?? (key === 'temperature' ? 1 : 0.95)}
+                      onChange={(e) => handleGenerationChange({ [key]: Number(e.target.value) })}
+                      className="w-full"
+                    />
+                  </div>
+                ))}
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="generation-max-tokens" className="text-sm font-medium text-[var(--color-text-secondary)] mb-1 block">Max output tokens</label>
+                    <input
+                      id="generation-max-tokens"
+                      type="number"
+                      min={1}
+                      value={localSettings.generation.maxOutputTokens ?? ''}
+                      onChange={(e) => handleGenerationChange({ maxOutputTokens: e.target.value ? Math.max(1, parseInt(e.target.value, 10)) : undefined })}
+                      placeholder="Default"
+                      className="w-full px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="generation-stop" className="text-sm font-medium text-[var(--color-text-secondary)] mb-1 block">Stop sequences</label>
+                    <input
+                      id="generation-stop"
+                      type="text"
+                      value={stopSequencesDraft}
+                      onChange={(e) => setStopSequencesDraft(e.target.value)}
+                      placeholder="Comma-separated"
+                      className="w-full px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="pt-4 border-t border-[var(--color-border)] space-y-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1">
+                    Reliability
+                  </h3>
+                  <p className="text-xs text-[var(--color-text-secondary)]">
+                    Rate limits, timeouts and server errors are retried with increasing delays.
+                  </p>
+                </div>
+                <div className="flex items-center justify-between">
+                  <label htmlFor="max-retries" className="text-sm font-medium text-[var(--color-text-secondary)]">Retries per request</label>
+                  <select
+                    id="max-retries"
+                    value={localSettings.maxRetries}
+                    onChange={(e) => setLocalSettings(prev => ({ ...prev, maxRetries: Number(e.target.value) }))}
+                    className="px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)]"
+                  >
+                    {[0, 1, 2, 3, 5].map(count => (
+                      <option key={count} value={count}>{count === 0 ? 'Off' : count}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={localSettings.enableFailover}
+                    onChange={(e) => setLocalSettings(prev => ({ ...prev, enableFailover: e.target.checked }))}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="text-sm font-medium">Fail over to other models</span>
+                    <span className="block text-xs text-[var(--color-text-secondary)]">
+                      If the selected model keeps failing, try the next model that has a key configured. The reply shows which model answered. A custom endpoint only fails over to your other custom endpoints.
+                    </span>
+                  </span>
+                </label>
+              </div>
             </div>
           )}
 
@@ -173,7 +470,7 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
             <div className="space-y-4 animate-fadeIn">
               {Object.keys(apiInfo).map(key => {
                 const id = key as keyof typeof apiInfo;
-                const apiKeyId = `${id}ApiKey` as keyof APISettings;
+                const apiKeyId = `${id}ApiKey` as ApiKeyField;
                 return (
                   <div key={id}>
                     <label htmlFor={apiKeyId} className="text-sm font-medium text-[var(--color-text-secondary)] mb-2 flex items-center gap-1.5">
@@ -196,9 +493,235 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                         {visibleApis[id] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                       </button>
                     </div>
+                    {id === 'anthropic' && (
+                      <input
+                        type="url"
+                        value={localSettings.endpointOverrides.anthropic || ''}
+                        onChange={(e) => handleEndpointOverrideChange('anthropic', e.target.value)}
+                        placeholder="Endpoint override (optional, e.g. http://localhost:8787/v1/messages)"
+                        className="w-full mt-2 px-3 py-1.5 text-xs border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-colors"
+                      />
+                    )}
                   </div>
                 )
               })}
+
+              <div className="pt-4 border-t border-[var(--color-border)]">
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="font-semibold flex items-center gap-2">
+                    <Server className="w-4 h-4" />
+                    Custom Endpoints
+                  </h3>
+                  <button onClick={handleAddEndpoint} className="flex items-center gap-1 px-2 py-1 text-xs font-semibold border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors">
+                    <Plus className="w-3.5 h-3.5" />
+                    Add
+                  </button>
+                </div>
+                <p className="text-xs text-[var(--color-text-secondary)] mb-3">
+                  Any OpenAI-compatible server, e.g. llama.cpp, Ollama or vLLM on your network.
+                </p>
+                <div className="space-y-3">
+                  {localSettings.customEndpoints.map(endpoint => (
+                    <div key={endpoint.id} className="p-3 border border-[var(--color-border)] rounded-lg space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={endpoint.name}
+                          onChange={(e) => handleUpdateEndpoint(endpoint.id, { name: e.target.value })}
+                          placeholder="Display name"
+                          className="flex-1 px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+                        />
+                        <button onClick={() => handleRemoveEndpoint(endpoint.id)} className="p-1.5 rounded-lg hover:bg-red-900/30 text-red-400" title="Remove endpoint">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <input
+                        type="url"
+                        value={endpoint.baseUrl}
+                        onChange={(e) => handleUpdateEndpoint(endpoint.id, { baseUrl: e.target.value })}
+                        placeholder="Base URL (http://192.168.1.20:8080/v1)"
+                        className="w-full px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+                      />
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          type="text"
+                          value={endpoint.model}
+                          onChange={(e) => handleUpdateEndpoint(endpoint.id, { model: e.target.value })}
+                          placeholder="Model name"
+                          className="px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+                        />
+                        <input
+                          type="password"
+                          value={endpoint.apiKey || ''}
+                          onChange={(e) => handleUpdateEndpoint(endpoint.id, { apiKey: e.target.value })}
+                          placeholder="API key (optional)"
+                          className="px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+                        />
+                      </div>
+                      <textarea
+                        value={headerDrafts[endpoint.id] || ''}
+                        onChange={(e) => setHeaderDrafts(prev => ({ ...prev, [endpoint.id]: e.target.value }))}
+                        placeholder={'Custom headers, one per line\nX-Org-Id: tutoring'}
+                        rows={2}
+                        className="w-full px-3 py-1.5 text-xs font-mono border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent resize-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="pt-4 border-t border-[var(--color-border)] space-y-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1 flex items-center gap-2">
+                    <Lock className="w-4 h-4" /> Key Encryption
+                  </h3>
+                  <p className="text-xs text-[var(--color-text-secondary)]">
+                    {vaultState === 'none'
+                      ? 'Encrypt API keys on this device with a passphrase. You will be asked for it when the app starts.'
+                      : 'API keys are encrypted with your passphrase. Backups include them only in encrypted form.'}
+                  </p>
+                </div>
+                {vaultState === 'none' ? (
+                  isVaultSupported() ? (
+                    <div className="space-y-2">
+                      <input
+                        type="password"
+                        value={vaultPassphrase}
+                        onChange={(e) => setVaultPassphrase(e.target.value)}
+                        placeholder="Passphrase"
+                        autoComplete="new-password"
+                        className="w-full px-3 py-2 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+                      />
+                      <input
+                        type="password"
+                        value={vaultConfirm}
+                        onChange={(e) => setVaultConfirm(e.target.value)}
+                        placeholder="Confirm passphrase"
+                        autoComplete="new-password"
+                        className="w-full px-3 py-2 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+                      />
+                      {vaultError && <p className="text-xs text-red-400">{vaultError}</p>}
+                      <button
+                        onClick={handleEnableVault}
+                        disabled={isVaultBusy || !vaultPassphrase}
+                        className="w-full p-2 text-sm font-semibold border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors disabled:opacity-50"
+                      >
+                        {isVaultBusy ? 'Encrypting...' : 'Encrypt API Keys'}
+                      </button>
+                      <p className="text-xs text-[var(--color-text-secondary)]">
+                        A forgotten passphrase cannot be recovered; you would need to enter your API keys again.
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-[var(--color-text-secondary)]">Encryption needs a secure (HTTPS) connection.</p>
+                  )
+                ) : (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <label htmlFor="auto-lock" className="text-sm font-medium text-[var(--color-text-secondary)]">Lock after inactivity</label>
+                      <select
+                        id="auto-lock"
+                        value={localSettings.autoLockMinutes}
+                        onChange={(e) => setLocalSettings(prev => ({ ...prev, autoLockMinutes: Number(e.target.value) }))}
+                        className="px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)]"
+                      >
+                        {[0, 5, 15, 30, 60].map(minutes => (
+                          <option key={minutes} value={minutes}>{minutes === 0 ? 'Never' : `${minutes} min`}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button onClick={onLockVault} className="flex items-center justify-center gap-2 p-2 text-sm border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors">
+                        <Lock className="w-4 h-4" /> Lock Now
+                      </button>
+                      <button onClick={handleDisableVault} disabled={isVaultBusy} className="p-2 text-sm border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors disabled:opacity-50">
+                        Remove Passphrase
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'usage' && (
+            <div className="space-y-6 animate-fadeIn">
+              <div>
+                <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1">
+                  This Month
+                </h3>
+                <p className="text-xs text-[var(--color-text-secondary)] mb-3">
+                  {formatTokenCount(monthlyTotals.tokens)} tokens · {formatCost(monthlyTotals.cost)} estimated.
+                  Counts marked ~ were estimated locally because the provider did not report usage.
+                </p>
+                {Object.keys(monthlyUsage).length === 0 ? (
+                  <p className="text-sm text-[var(--color-text-secondary)]">No usage recorded this month.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-[var(--color-text-secondary)]">
+                        <th className="py-1 font-medium">Model</th>
+                        <th className="py-1 font-medium text-right">Prompt</th>
+                        <th className="py-1 font-medium text-right">Completion</th>
+                        <th className="py-1 font-medium text-right">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.entries(monthlyUsage).map(([model, totals]) => (
+                        <tr key={model} className="border-t border-[var(--color-border)]">
+                          <td className="py-1.5">{providers.find(p => p.id === model)?.name || model}</td>
+                          <td className="py-1.5 text-right">{totals.estimated ? '~' : ''}{formatTokenCount(totals.promptTokens)}</td>
+                          <td className="py-1.5 text-right">{totals.estimated ? '~' : ''}{formatTokenCount(totals.completionTokens)}</td>
+                          <td className="py-1.5 text-right">{formatCost(totals.cost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className="pt-4 border-t border-[var(--color-border)]">
+                <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1">
+                  Prices
+                </h3>
+                <p className="text-xs text-[var(--color-text-secondary)] mb-3">
+                  USD per million tokens, used for the cost estimates above.
+                </p>
+                <div className="space-y-2">
+                  <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 text-xs text-[var(--color-text-secondary)]">
+                    <span>Model</span>
+                    <span>Input</span>
+                    <span>Output</span>
+                  </div>
+                  {providers.map(provider => {
+                    const price = getModelPrice(provider.id, localSettings.prices) || { input: 0, output: 0 };
+                    return (
+                      <div key={provider.id} className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center">
+                        <span className="text-sm truncate">{provider.name}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={price.input}
+                          onChange={(e) => handlePriceChange(provider.id, { input: Number(e.target.value) || 0 })}
+                          aria-label={`${provider.name} input price`}
+                          title="Input"
+                          className="w-full px-2 py-1 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)]"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={price.output}
+                          onChange={(e) => handlePriceChange(provider.id, { output: Number(e.target.value) || 0 })}
+                          aria-label={`${provider.name} output price`}
+                          title="Output"
+                          className="w-full px-2 py-1 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)]"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
             </div>
           )}
 
@@ -211,7 +734,117 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                   <button onClick={triggerFileInput} className="flex items-center justify-center gap-2 p-3 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors"> <Upload className="w-4 h-4"/> Import</button>
                   <input type="file" ref={fileInputRef} onChange={handleImportData} accept=".json" className="hidden"/>
                 </div>
+                <p className="text-xs text-[var(--color-text-secondary)] mt-2">
+                  Backups include conversations with their attached files, notes, flowcharts, quiz results, flashcard decks, library documents and settings. API keys are only included when key encryption is on, and then only encrypted.
+                </p>
               </div>
+              {pendingBackup && restorePlan && (
+                <div className="p-4 rounded-lg border border-[var(--color-border)] bg-[var(--color-card)] space-y-3">
+                  <div>
+                    <h3 className="font-semibold">Restore Preview</h3>
+                    <p className="text-xs text-[var(--color-text-secondary)]">
+                      {pendingBackup.exportedAt ? `Backup from ${pendingBackup.exportedAt.toLocaleString()}` : 'Backup date unknown'}
+                      {pendingBackup.version < 2
+                        ? ' (older format, flowcharts, quiz results, flashcards and library documents not included)'
+                        : pendingBackup.version < 4
+                          ? ' (older format, quiz results, flashcards and library documents not included)'
+                          : pendingBackup.version < 5
+                            ? ' (older format, flashcards, attachment files and library documents not included)'
+                            : pendingBackup.version < 6
+                              ? ' (older format, attachment files and library documents not included)'
+                              : pendingBackup.version < 7 && ' (older format, library documents not included)'}
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['merge', 'replace'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setRestoreMode(mode)}
+                        className={`p-2 text-left rounded-lg border transition-colors ${restoreMode === mode ? 'border-[var(--color-accent-bg)] bg-[var(--color-bg)]' : 'border-[var(--color-border)] hover:bg-[var(--color-bg)]'}`}
+                      >
+                        <div className="text-sm font-semibold">{mode === 'merge' ? 'Merge' : 'Replace'}</div>
+                        <div className="text-xs text-[var(--color-text-secondary)]">
+                          {mode === 'merge' ? 'Add new items and keep the newer copy of each' : 'Make this device match the backup'}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-[var(--color-text-secondary)]">
+                        <th className="py-1 font-medium"></th>
+                        <th className="py-1 font-medium text-right">New</th>
+                        <th className="py-1 font-medium text-right">Updated</th>
+                        <th className="py-1 font-medium text-right">Unchanged</th>
+                        <th className="py-1 font-medium text-right">Removed</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {restoreEntities.map(({ key, label }) => {
+                        const changes = restorePlan.changes[key];
+                        return (
+                          <tr key={key} className="border-t border-[var(--color-border)]">
+                            <td className="py-1">{label}</td>
+                            <td className="py-1 text-right">{changes.added}</td>
+                            <td className="py-1 text-right">{changes.updated}</td>
+                            <td className="py-1 text-right">{changes.kept}</td>
+                            <td className={`py-1 text-right ${changes.removed > 0 ? 'text-red-400' : ''}`}>{changes.removed}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-[var(--color-text-secondary)]">
+                    {restorePlan.replacesSettings ? 'Settings will be replaced by the ones in the backup. API keys the backup does not include are kept.' : 'Your current settings and API keys will be kept.'}
+                    {pendingBackup.skipped > 0 && ` ${pendingBackup.skipped} unreadable item${pendingBackup.skipped === 1 ? '' : 's'} in the file will be skipped.`}
+                  </p>
+                  {restorePlan.missingAttachments.length > 0 && (
+                    <div className="text-xs text-[var(--color-text-secondary)]">
+                      <p>
+                        {restorePlan.missingAttachments.length} attachment{restorePlan.missingAttachments.length === 1 ? ' has' : 's have'} no file in this backup.
+                        Messages keep their thumbnails and PDF text, but the files stay unavailable unless this device still has them:
+                      </p>
+                      <ul className="mt-1 max-h-24 overflow-y-auto list-disc pl-5">
+                        {restorePlan.missingAttachments.map(attachment => (
+                          <li key={attachment.id} className="truncate">{attachment.name}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {restorePlan.replacesSettings && pendingBackup.vault && (
+                    <div>
+                      <input
+                        type="password"
+                        value={backupPassphrase}
+                        onChange={(e) => { setBackupPassphrase(e.target.value); setRestoreError(''); }}
+                        placeholder="Backup passphrase, to restore its API keys (optional)"
+                        className="w-full px-3 py-2 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-bg)] focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+                      />
+                      {restoreError && <p className="text-xs text-red-400 mt-1">{restoreError}</p>}
+                    </div>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => setPendingBackup(null)} className="px-4 py-2 text-sm rounded-lg hover:bg-[var(--color-bg)] transition-colors">
+                      Cancel
+                    </button>
+                    <button onClick={handleConfirmRestore} className="px-4 py-2 text-sm font-semibold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] rounded-lg hover:bg-[var(--color-accent-bg-hover)] transition-colors">
+                      Restore
+                    </button>
+                  </div>
+                </div>
+              )}
+              {quarantinedCount > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-1">Unreadable Data</h3>
+                  <p className="text-xs text-[var(--color-text-secondary)] mb-2">
+                    {quarantinedCount} stored item{quarantinedCount === 1 ? '' : 's'} could not be loaded and {quarantinedCount === 1 ? 'was' : 'were'} set aside instead of being deleted.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={handleExportQuarantine} className="flex items-center justify-center gap-2 p-3 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors"> <Download className="w-4 h-4"/> Download</button>
+                    <button onClick={handleDiscardQuarantine} className="flex items-center justify-center gap-2 p-3 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors"> <Trash2 className="w-4 h-4"/> Discard</button>
+                  </div>
+                </div>
+              )}
                <div>
                 <h3 className="font-semibold mb-2 text-red-400">Danger Zone</h3>
                 <button onClick={handleClearData} className="w-full flex items-center justify-center gap-2 p-3 border border-red-500/30 bg-red-900/20 text-red-400 rounded-lg hover:bg-red-900/40 hover:text-red-300 transition-colors">
@@ -1,55 +1,94 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import {
   Plus, MessageSquare, Settings, Trash2, X, ChevronLeft, ChevronRight,
-  Sparkles, Brain, Cloud, Terminal, Search, Pin, Edit, Book, GitBranch
+  Sparkles, Brain, Cloud, Terminal, Server, Bot, Search, Pin, Edit, Book, GitBranch, Library, ClipboardCheck, GraduationCap, Layers
 } from 'lucide-react';
-import { Conversation, Note, Flowchart } from '../types';
+import { Conversation, Note, Flowchart, FlashcardDeck, StudySession } from '../types';
+import { ProviderDefinition, ProviderIcon } from '../services/providers';
+import { SearchResult } from '../services/search';
+import { scorePercent } from '../services/quizStats';
+import { countDue } from '../services/spacedRepetition';
+import { formatDate } from '../utils/helpers';
+import { SearchResults } from './SearchResults';
 
 interface SidebarProps {
   conversations: Conversation[];
   notes: Note[];
   flowcharts: Flowchart[];
-  activeView: 'chat' | 'note' | 'flowchart';
+  studySessions: StudySession[];
+  decks: FlashcardDeck[];
+  activeView: 'chat' | 'note' | 'flowchart' | 'study';
   currentConversationId: string | null;
   currentNoteId: string | null;
   currentFlowchartId: string | null;
+  currentStudySessionId: string | null;
+  currentDeckId: string | null;
   onNewConversation: () => void;
   onSelectConversation: (id: string | null) => void;
   onSelectNote: (id: string | null) => void;
   onSelectFlowchart: (id: string | null) => void;
+  onSelectStudySession: (id: string | null) => void;
+  onSelectDeck: (id: string) => void;
+  onStartReview: () => void; // reviews every due card across all decks
   onDeleteConversation: (id: string) => void;
   onRenameConversation: (id: string, newTitle: string) => void;
   onTogglePinConversation: (id: string) => void;
   onDeleteNote: (id: string) => void;
   onDeleteFlowchart: (id: string) => void;
+  onDeleteStudySession: (id: string) => void;
+  onDeleteDeck: (id: string) => void;
   onOpenSettings: () => void;
+  onOpenLibrary: () => void;
+  onOpenSearchResult: (result: SearchResult) => void;
   settings: { selectedModel: string };
-  onModelChange: (model: any) => void;
+  providers: ProviderDefinition[];
+  onModelChange: (model: string) => void;
   onCloseSidebar: () => void;
   isSidebarOpen: boolean;
   isFolded?: boolean;
   onToggleFold?: () => void;
 }
 
+const providerIcons: Record<ProviderIcon, React.ElementType> = {
+  sparkles: Sparkles,
+  brain: Brain,
+  cloud: Cloud,
+  terminal: Terminal,
+  server: Server,
+  bot: Bot,
+};
+
 export function Sidebar({
   conversations,
   notes,
   flowcharts,
+  studySessions,
+  decks,
   activeView,
   currentConversationId,
   currentNoteId,
   currentFlowchartId,
+  currentStudySessionId,
+  currentDeckId,
   onNewConversation,
   onSelectConversation,
   onSelectNote,
   onSelectFlowchart,
+  onSelectStudySession,
+  onSelectDeck,
+  onStartReview,
   onDeleteConversation,
   onRenameConversation,
   onTogglePinConversation,
   onDeleteNote,
   onDeleteFlowchart,
+  onDeleteStudySession,
+  onDeleteDeck,
   onOpenSettings,
+  onOpenLibrary,
+  onOpenSearchResult,
   settings,
+  providers,
   onModelChange,
   onCloseSidebar,
   isFolded = false,
@@ -59,7 +98,7 @@ export function Sidebar({
   const [searchQuery, setSearchQuery] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState('');
-  const [view, setView] = useState<'chats' | 'notes' | 'flowcharts'>('chats');
+  const [view, setView] = useState<'chats' | 'notes' | 'flowcharts' | 'study'>('chats');
 
   // Sync view with activeView prop
   useEffect(() => {
@@ -69,15 +108,16 @@ export function Sidebar({
       setView('notes');
     } else if (activeView === 'flowchart') {
       setView('flowcharts');
+    } else if (activeView === 'study') {
+      setView('study');
     }
   }, [activeView]);
 
-  const models = [
-    { id: 'google', icon: Sparkles, name: 'Gemma' },
-    { id: 'zhipu', icon: Brain, name: 'ZhipuAI' },
-    { id: 'mistral-small', icon: Cloud, name: 'Mistral' },
-    { id: 'mistral-codestral', icon: Terminal, name: 'Codestral' },
-  ];
+  const models = providers.map(provider => ({
+    id: provider.id,
+    icon: providerIcons[provider.icon] || Server,
+    name: provider.name,
+  }));
 
   const sortedConversations = useMemo(() => {
     return [...conversations].sort((a, b) => {
@@ -86,24 +126,9 @@ export function Sidebar({
     });
   }, [conversations]);
 
-  const filteredConversations = useMemo(() => {
-    return sortedConversations.filter(c => 
-      c.title.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [sortedConversations, searchQuery]);
-
-  const filteredNotes = useMemo(() => {
-    return notes.filter(n =>
-      n.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      n.content.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [notes, searchQuery]);
-
-  const filteredFlowcharts = useMemo(() => {
-    return flowcharts.filter(f =>
-      f.title.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [flowcharts, searchQuery]);
+  // A query swaps the lists for results from every chat, note and flowchart
+  const isSearching = !isFolded && searchQuery.trim() !== '';
+  const totalDue = decks.reduce((sum, deck) => sum + countDue(deck), 0);
 
   const handleStartEditing = (conversation: Conversation) => {
     setEditingId(conversation.id);
@@ -127,7 +152,7 @@ export function Sidebar({
     }
   };
 
-  const handleViewChange = (newView: 'chats' | 'notes' | 'flowcharts') => {
+  const handleViewChange = (newView: 'chats' | 'notes' | 'flowcharts' | 'study') => {
     setView(newView);
     setSearchQuery('');
     
@@ -138,6 +163,8 @@ export function Sidebar({
       onSelectNote(null);
     } else if (newView === 'flowcharts') {
       onSelectFlowchart(null);
+    } else if (newView === 'study') {
+      onSelectStudySession(null);
     }
   };
 
@@ -162,6 +189,15 @@ export function Sidebar({
             </a>
           )}
           <div className="flex items-center gap-1">
+            {!isFolded && (
+              <button
+                onClick={onOpenLibrary}
+                className="p-2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)] rounded-lg transition-colors"
+                title="Document library"
+              >
+                <Library className="w-5 h-5" />
+              </button>
+            )}
             <button
               onClick={onOpenSettings}
               className="p-2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)] rounded-lg transition-colors"
@@ -204,7 +240,7 @@ export function Sidebar({
               {models.map(model => (
                 <button
                   key={model.id}
-                  onClick={() => onModelChange(model.id as any)}
+                  onClick={() => onModelChange(model.id)}
                   className={`w-full flex justify-center items-center p-2 rounded-lg transition-all duration-200 border ${
                     settings.selectedModel === model.id
                       ? 'bg-[var(--color-card)] border-[var(--color-border)] text-white'
@@ -225,7 +261,7 @@ export function Sidebar({
                 {models.map(model => (
                   <button
                     key={model.id}
-                    onClick={() => onModelChange(model.id as any)}
+                    onClick={() => onModelChange(model.id)}
                     className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 border transform hover:scale-105 active:scale-100 ${
                       settings.selectedModel === model.id
                         ? 'bg-[var(--color-card)] border-[var(--color-border)] text-white scale-105'
@@ -253,17 +289,38 @@ export function Sidebar({
               type="text"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder={`Search ${view}...`}
-              className="w-full bg-[var(--color-card)] border border-transparent focus:border-[var(--color-border)] rounded-lg pl-9 pr-3 py-1.5 text-sm placeholder:text-[var(--color-text-placeholder)] focus:outline-none transition-colors"
+              onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+              placeholder="Search everything..."
+              className="w-full bg-[var(--color-card)] border border-transparent focus:border-[var(--color-border)] rounded-lg pl-9 pr-8 py-1.5 text-sm placeholder:text-[var(--color-text-placeholder)] focus:outline-none transition-colors"
             />
+            {searchQuery && (
+              <button
+                onClick={() => setSearchQuery('')}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]"
+                title="Clear search"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
           </div>
         )}
 
+        {isSearching && (
+          <SearchResults
+            query={searchQuery}
+            conversations={conversations}
+            notes={notes}
+            flowcharts={flowcharts}
+            providers={providers}
+            onOpenResult={onOpenSearchResult}
+          />
+        )}
+
         {/* Chats List */}
-        {view === 'chats' && (
+        {view === 'chats' && !isSearching && (
           <div className="space-y-1">
-            {filteredConversations.length > 0 ? (
-              filteredConversations.map((conversation) => (
+            {sortedConversations.length > 0 ? (
+              sortedConversations.map((conversation) => (
                 <div
                   key={conversation.id}
                   onClick={() => onSelectConversation(conversation.id)}
@@ -338,11 +395,6 @@ export function Sidebar({
                   )}
                 </div>
               ))
-            ) : searchQuery ? (
-              <div className="text-center py-8 px-4">
-                <MessageSquare className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-3" />
-                <p className="text-sm text-[var(--color-text-secondary)]">No chats found</p>
-              </div>
             ) : (
               <div className="text-center py-8 px-4">
                 <MessageSquare className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-3" />
@@ -354,10 +406,10 @@ export function Sidebar({
         )}
 
         {/* Notes List */}
-        {view === 'notes' && !isFolded && (
+        {view === 'notes' && !isFolded && !isSearching && (
           <div className="space-y-1">
-            {filteredNotes.length > 0 ? (
-              filteredNotes.map((note) => (
+            {notes.length > 0 ? (
+              notes.map((note) => (
                 <div
                   key={note.id}
                   onClick={() => onSelectNote(note.id)}
@@ -389,24 +441,20 @@ export function Sidebar({
             ) : (
               <div className="text-center py-8 px-4">
                 <Book className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-3" />
-                <p className="text-sm text-[var(--color-text-secondary)]">
-                  {searchQuery ? 'No notes found' : 'No notes yet'}
+                <p className="text-sm text-[var(--color-text-secondary)]">No notes yet</p>
+                <p className="text-xs text-[var(--color-text-secondary)] mt-2">
+                  Save messages as notes to keep them!
                 </p>
-                {!searchQuery && (
-                  <p className="text-xs text-[var(--color-text-secondary)] mt-2">
-                    Save messages as notes to keep them!
-                  </p>
-                )}
               </div>
             )}
           </div>
         )}
 
         {/* Flowcharts List */}
-        {view === 'flowcharts' && !isFolded && (
+        {view === 'flowcharts' && !isFolded && !isSearching && (
           <div className="space-y-1">
-            {filteredFlowcharts.length > 0 ? (
-              filteredFlowcharts.map((flowchart) => (
+            {flowcharts.length > 0 ? (
+              flowcharts.map((flowchart) => (
                 <div
                   key={flowchart.id}
                   onClick={() => onSelectFlowchart(flowchart.id)}
@@ -440,27 +488,127 @@ export function Sidebar({
             ) : (
               <div className="text-center py-8 px-4">
                 <GitBranch className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-3" />
-                <p className="text-sm text-[var(--color-text-secondary)]">
-                  {searchQuery ? 'No flowcharts found' : 'No flowcharts yet'}
+                <p className="text-sm text-[var(--color-text-secondary)]">No flowcharts yet</p>
+                <p className="text-xs text-[var(--color-text-secondary)] mt-2">
+                  Generate flowcharts from conversations!
                 </p>
-                {!searchQuery && (
-                  <p className="text-xs text-[var(--color-text-secondary)] mt-2">
-                    Generate flowcharts from conversations!
-                  </p>
-                )}
               </div>
             )}
           </div>
         )}
 
-        {/* Folded state message for notes/flowcharts */}
-        {isFolded && (view === 'notes' || view === 'flowcharts') && (
+        {/* Study List: flashcard decks and quiz results */}
+        {view === 'study' && !isFolded && !isSearching && (
+          <div className="space-y-4">
+            <button
+              onClick={onStartReview}
+              disabled={totalDue === 0}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg text-sm font-semibold bg-[var(--color-card)] border border-[var(--color-border)] hover:bg-[var(--color-border)] text-[var(--color-text-primary)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Layers className="w-4 h-4" />
+              {totalDue > 0 ? `Review ${totalDue} due card${totalDue === 1 ? '' : 's'}` : 'No cards due'}
+            </button>
+
+            {decks.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-[var(--color-text-secondary)] uppercase tracking-wider px-1">
+                  Flashcards
+                </p>
+                {decks.map((deck) => (
+                  <div
+                    key={deck.id}
+                    onClick={() => onSelectDeck(deck.id)}
+                    className={`group p-2.5 rounded-lg cursor-pointer transition-colors ${
+                      activeView === 'study' && currentDeckId === deck.id
+                        ? 'bg-[var(--color-accent-bg)] text-[var(--color-accent-text)]'
+                        : 'hover:bg-[var(--color-card)] text-[var(--color-text-primary)]'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex items-center gap-2 flex-1 min-w-0">
+                        <Layers className="w-4 h-4 flex-shrink-0" />
+                        <span className="flex-1 text-sm font-semibold truncate">{deck.title}</span>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDeleteDeck(deck.id);
+                        }}
+                        className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-red-900/30 text-red-400 flex-shrink-0"
+                        title="Delete deck"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                    <p className="text-xs opacity-70 mt-1 pl-6">
+                      {deck.cards.length} cards • {countDue(deck)} due
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {studySessions.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-[var(--color-text-secondary)] uppercase tracking-wider px-1">
+                  Quizzes
+                </p>
+                {studySessions.map((session) => (
+                  <div
+                    key={session.id}
+                    onClick={() => onSelectStudySession(session.id)}
+                    className={`group p-2.5 rounded-lg cursor-pointer transition-colors ${
+                      activeView === 'study' && currentStudySessionId === session.id
+                        ? 'bg-[var(--color-accent-bg)] text-[var(--color-accent-text)]'
+                        : 'hover:bg-[var(--color-card)] text-[var(--color-text-primary)]'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex items-center gap-2 flex-1 min-w-0">
+                        <ClipboardCheck className="w-4 h-4 flex-shrink-0" />
+                        <span className="flex-1 text-sm font-semibold truncate">{session.title}</span>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDeleteStudySession(session.id);
+                        }}
+                        className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-red-900/30 text-red-400 flex-shrink-0"
+                        title="Delete quiz result"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                    <p className="text-xs opacity-70 mt-1 pl-6">
+                      {session.score}/{session.totalQuestions} • {scorePercent(session)}% • {formatDate(session.updatedAt)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {decks.length === 0 && studySessions.length === 0 && (
+              <div className="text-center py-8 px-4">
+                <GraduationCap className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-3" />
+                <p className="text-sm text-[var(--color-text-secondary)]">Nothing to study yet</p>
+                <p className="text-xs text-[var(--color-text-secondary)] mt-2">
+                  Make flashcards or take a quiz from a conversation!
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Folded state message for notes/flowcharts/study */}
+        {isFolded && view !== 'chats' && (
           <div className="flex-1 flex items-center justify-center p-4">
             <div className="text-center">
               {view === 'notes' ? (
                 <Book className="w-8 h-8 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-2" />
-              ) : (
+              ) : view === 'flowcharts' ? (
                 <GitBranch className="w-8 h-8 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-2" />
+              ) : (
+                <GraduationCap className="w-8 h-8 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-2" />
               )}
               <p className="text-xs text-[var(--color-text-secondary)]">
                 Expand sidebar
@@ -472,10 +620,10 @@ export function Sidebar({
 
       {/* Footer Navigation */}
       <div className="p-2 border-t border-[var(--color-border)]">
-        <div className={`${isFolded ? 'space-y-1 flex flex-col' : 'grid grid-cols-3 gap-1'}`}>
+        <div className={`${isFolded ? 'space-y-1 flex flex-col' : 'grid grid-cols-4 gap-1'}`}>
           <button
             onClick={() => handleViewChange('chats')}
-            className={`flex flex-col items-center gap-1 p-2 rounded-lg w-full transition-colors ${
+            className={`flex flex-col items-center gap-1 py-2 px-1 rounded-lg w-full transition-colors ${
               view === 'chats' 
                 ? 'text-[var(--color-text-primary)] bg-[var(--color-card)]' 
                 : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)]'
@@ -487,7 +635,7 @@ export function Sidebar({
           </button>
           <button
             onClick={() => handleViewChange('notes')}
-            className={`flex flex-col items-center gap-1 p-2 rounded-lg w-full transition-colors ${
+            className={`flex flex-col items-center gap-1 py-2 px-1 rounded-lg w-full transition-colors ${
               view === 'notes' 
                 ? 'text-[var(--color-text-primary)] bg-[var(--color-card)]' 
                 : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)]'
@@ -499,7 +647,7 @@ export function Sidebar({
           </button>
           <button
             onClick={() => handleViewChange('flowcharts')}
-            className={`flex flex-col items-center gap-1 p-2 rounded-lg w-full transition-colors ${
+            className={`flex flex-col items-center gap-1 py-2 px-1 rounded-lg w-full transition-colors ${
               view === 'flowcharts' 
                 ? 'text-[var(--color-text-primary)] bg-[var(--color-card)]' 
                 : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)]'
@@ -509,6 +657,18 @@ export function Sidebar({
             <GitBranch className="w-5 h-5" />
             {!isFolded && <span className="text-xs font-semibold">Flows</span>}
           </button>
+          <button
+            onClick={() => handleViewChange('study')}
+            className={`flex flex-col items-center gap-1 py-2 px-1 rounded-lg w-full transition-colors ${
+              view === 'study' 
+                ? 'text-[var(--color-text-primary)] bg-[var(--color-card)]' 
+                : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)]'
+            }`}
+            title="Flashcards and quiz history"
+          >
+            <GraduationCap className="w-5 h-5" />
+            {!isFolded && <span className="text-xs font-semibold">Study</span>}
+          </button>
         </div>
         {!isFolded && (
           <div className="mt-2 text-center">
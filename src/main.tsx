@@ -3,11 +3,24 @@ import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
 import { ErrorBoundary } from './components/ErrorBoundary'; // Add this
+import { storageUtils } from './utils/storage';
+import { onDatabaseNotice } from './utils/db';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <ErrorBoundary>
-      <App />
-    </ErrorBoundary>
-  </StrictMode>
-);
+// Nothing renders until storage is ready, so explain the wait when an older tab holds the database
+const stopWatchingDatabase = onDatabaseNotice(notice => {
+  if (notice !== 'blocked') return;
+  document.getElementById('root')!.innerHTML =
+    '<p style="padding: 2rem; font-family: sans-serif; text-align: center;">AI Tutor was updated. Reload or close the other AI Tutor tabs to continue.</p>';
+});
+
+// App state is initialized synchronously from the storage cache, so hydrate it first
+storageUtils.init().finally(() => {
+  stopWatchingDatabase();
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <ErrorBoundary>
+        <App />
+      </ErrorBoundary>
+    </StrictMode>
+  );
+});
@@ -1,5 +1,54 @@
-import { APISettings, Conversation, StudySession, QuizQuestion, TutorMode } from '../types';
+import { APISettings, Citation, Conversation, ConversationSummary, FlashcardDeck, Message, Note, QuestionType, QuizDifficulty, QuizOptions, StudySession, QuizQuestion, TokenUsage, TutorMode } from '../types';
 import { generateId } from '../utils/helpers';
+import { getMessageText, isImageAttachment, readAttachmentData } from '../utils/attachments';
+import { searchLibrary } from '../utils/library';
+import {
+  CUSTOM_PROVIDER_PREFIX,
+  ChatMessage,
+  ImagePart,
+  ProviderDefinition,
+  RequestOptions,
+  createGeminiProvider,
+  geminiStreamUrl,
+  getProvider,
+  getProviderApiKey,
+  getStreamTimeouts,
+  isProviderConfigured,
+  listProviders,
+} from './providers';
+import { buildRetrievalQuery, withSources } from './retrieval';
+import { createCard } from './spacedRepetition';
+import { QUESTION_TYPES, describeCorrectAnswer } from './quizGrading';
+import { QuizMaterial } from './quizSources';
+import { readServerSentEvents } from './sse';
+import { estimateTokens } from './tokenUsage';
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  buildTranscript,
+  createSummaryPrompt,
+  getSummaryInputBudget,
+  getUnsummarizedMessages,
+  planContext,
+  takeForSummary,
+  withSummary,
+} from './contextManager';
+import {
+  ProviderError,
+  cancelledError,
+  classifyStatus,
+  createRequestSignal,
+  isAbortError,
+  parseRetryAfter,
+  retryDelay,
+  sleep,
+  toProviderError,
+} from './resilience';
+import {
+  JsonSchema,
+  StructuredOutputError,
+  createRepairPrompt,
+  parseStructured,
+} from './structuredOutput';
 
 // Persona prompts for tutors
 const tutorPrompts: Record<TutorMode, string> = {
@@ -32,84 +81,388 @@ const tutorPrompts: Record<TutorMode, string> = {
 5. Creative Constraints: Suggest fun challenges to spark ideas.`
 };
 
-// Helper: OpenAI-compatible streaming with timeout
-async function* streamOpenAICompatResponse(
-  url: string,
+// Gemini answers 400 with one of these when a model does not accept systemInstruction
+function isSystemInstructionRejection(errorBody: string): boolean {
+  return /system ?instruction|developer instruction/i.test(errorBody);
+}
+
+// Older OpenAI-compatible servers reject the unknown `stream_options` field
+function isStreamOptionsRejection(errorBody: string): boolean {
+  return /stream_options|include_usage/i.test(errorBody);
+}
+
+interface StreamControl {
+  signal?: AbortSignal;
+  onUsage?: (usage: Partial<TokenUsage>) => void;
+}
+
+// Helper: streams a provider response under a watchdog that limits the wait for
+// the first token and the idle gap between chunks (see provider.timeouts).
+// Aborting `control.signal` cancels the fetch and the body reader immediately.
+async function* streamProviderResponse(
+  provider: ProviderDefinition,
   apiKey: string,
-  model: string,
-  messages: { role: string; content: string }[],
+  messages: ChatMessage[],
   systemPrompt: string,
-  timeout: number = 30000
+  options: RequestOptions = {},
+  control: StreamControl = {}
 ): AsyncGenerator<string> {
-  const messagesWithSystemPrompt = [
-    { role: 'system', content: systemPrompt },
-    ...messages,
-  ];
+  const url = provider.auth === 'query-key'
+    ? `${provider.endpoint}${provider.endpoint.includes('?') ? '&' : '?'}key=${encodeURIComponent(apiKey)}`
+    : provider.endpoint;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...provider.headers };
+  if (provider.auth === 'bearer' && apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  } else if (provider.auth === 'x-api-key') {
+    headers['x-api-key'] = apiKey;
+  }
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const timeouts = getStreamTimeouts(provider);
+  const request = createRequestSignal(timeouts.firstTokenMs, control.signal);
+  let receivedText = false;
 
   try {
     const response = await fetch(url, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({ model, messages: messagesWithSystemPrompt, stream: true }),
-      signal: controller.signal,
+      headers,
+      body: JSON.stringify(provider.buildBody(messages, systemPrompt, options)),
+      signal: request.signal,
     });
 
-    clearTimeout(timeoutId);
-
     if (!response.ok) {
+      request.clearTimeout();
       const errorBody = await response.text();
+
+      if (
+        response.status === 400 &&
+        provider.capabilities.systemPrompt &&
+        !options.inlineSystemPrompt &&
+        isSystemInstructionRejection(errorBody)
+      ) {
+        console.warn(`${provider.name} rejected the system instruction, retrying with an inline persona`);
+        yield* streamProviderResponse(
+          provider, apiKey, messages, systemPrompt, { ...options, inlineSystemPrompt: true }, control
+        );
+        return;
+      }
+
+      if ((response.status === 400 || response.status === 422) && !options.omitStreamUsage && isStreamOptionsRejection(errorBody)) {
+        console.warn(`${provider.name} rejected stream_options, retrying without usage reporting`);
+        yield* streamProviderResponse(
+          provider, apiKey, messages, systemPrompt, { ...options, omitStreamUsage: true }, control
+        );
+        return;
+      }
+
       console.error("API Error Body:", errorBody);
-      throw new Error(`API Error: ${response.status} ${response.statusText}`);
+      throw new ProviderError(
+        `${provider.name} API Error: ${response.status} ${response.statusText}`,
+        classifyStatus(response.status),
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
     }
 
     if (!response.body) {
       throw new Error('Response body is null');
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
+    for await (const event of readServerSentEvents(response.body)) {
+      // Keep-alive events only count once text has started flowing
+      if (receivedText) request.restart(timeouts.idleMs);
+      const delta = provider.parseStream(event);
+      if (delta.error) throw new ProviderError(`${provider.name} API Error: ${delta.error}`, 'server');
+      if (delta.usage) control.onUsage?.(delta.usage);
+      if (delta.text) {
+        receivedText = true;
+        request.restart(timeouts.idleMs);
+        yield delta.text;
+      }
+      if (delta.done) return;
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      if (!request.didTimeOut()) throw cancelledError();
+      throw receivedText
+        ? new ProviderError(`${provider.name} stream stalled: no data for ${timeouts.idleMs / 1000}s`, 'stalled')
+        : new ProviderError(`${provider.name} did not respond within ${timeouts.firstTokenMs / 1000}s`, 'timeout');
+    }
+    throw toProviderError(error);
+  } finally {
+    request.dispose();
+  }
+}
 
+// Retries transient failures with backoff, but only until the first chunk has been yielded
+async function* streamWithRetry(
+  provider: ProviderDefinition,
+  apiKey: string,
+  messages: ChatMessage[],
+  systemPrompt: string,
+  options: RequestOptions = {},
+  maxRetries: number = 2,
+  control: StreamControl = {}
+): AsyncGenerator<string> {
+  for (let attempt = 0; ; attempt++) {
+    let emitted = false;
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.substring(6).trim();
-            if (data === '[DONE]') return;
-            
-            try {
-              const json = JSON.parse(data);
-              const chunk = json.choices?.[0]?.delta?.content;
-              if (chunk) yield chunk;
-            } catch (e) {
-              console.error('Error parsing stream chunk:', e, 'Raw data:', data);
-            }
-          }
-        }
+      for await (const chunk of streamProviderResponse(
+        provider, apiKey, messages, systemPrompt, options, control
+      )) {
+        emitted = true;
+        yield chunk;
+      }
+      return;
+    } catch (error) {
+      const providerError = toProviderError(error);
+      // A self-hosted server that gave no first token is down rather than busy; waiting out
+      // its long first-token timeout again would only delay the error by minutes
+      const selfHostedTimeout = providerError.kind === 'timeout' && provider.id.startsWith(CUSTOM_PROVIDER_PREFIX);
+      if (emitted || !providerError.isTransient || selfHostedTimeout || attempt >= maxRetries) {
+        throw providerError;
       }
-    } finally {
-      reader.releaseLock();
+      const delay = retryDelay(providerError, attempt);
+      console.warn(`${provider.name} ${providerError.kind} error, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
+      await sleep(delay, control.signal);
     }
-  } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out');
+  }
+}
+
+// Flowchart generation runs on Gemini 2.5 Pro unless a custom endpoint is selected (see getStudyProvider)
+const flowchartProvider = createGeminiProvider({
+  id: 'gemini-flowchart',
+  name: 'Google',
+  shortName: 'Gemini',
+  icon: 'sparkles',
+  endpoint: geminiStreamUrl('gemini-2.5-pro'),
+  model: 'gemini-2.5-pro',
+  apiKeyField: 'googleApiKey',
+  keyLabel: 'Google',
+  capabilities: { jsonMode: true },
+  // 2.5 Pro thinks before it streams anything
+  timeouts: { firstTokenMs: 90000 },
+});
+
+// Quizzes and flashcards use Gemini 2.5 Flash because it supports responseSchema
+const quizProvider = createGeminiProvider({
+  id: 'gemini-quiz',
+  name: 'Google',
+  shortName: 'Gemini',
+  icon: 'sparkles',
+  endpoint: geminiStreamUrl('gemini-2.5-flash'),
+  model: 'gemini-2.5-flash',
+  apiKeyField: 'googleApiKey',
+  keyLabel: 'Google',
+  capabilities: { jsonMode: true },
+  timeouts: { firstTokenMs: 60000 },
+});
+
+// One flat shape for every type; `options` and `answers` mean different things per type (see the prompt)
+interface RawQuizQuestion {
+  type: QuestionType;
+  question: string;
+  options: string[];
+  answers: string[];
+  rubric?: string;
+  explanation: string;
+  concept: string;
+}
+
+const quizSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: QUESTION_TYPES },
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          answers: { type: 'array', items: { type: 'string' }, description: 'Correct options, or accepted answers for fill-blank' },
+          rubric: { type: 'string', description: 'For short-answer: what a full answer must cover' },
+          explanation: { type: 'string' },
+          concept: { type: 'string', description: 'Name of the concept the question tests, in a few words' },
+        },
+        required: ['type', 'question', 'options', 'answers', 'explanation', 'concept'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+const QUESTION_TYPE_INSTRUCTIONS: Record<QuestionType, string> = {
+  'multiple-choice': '"multiple-choice": 4 options, "answers" holds the one correct option',
+  'true-false': '"true-false": options exactly ["True", "False"], "answers" holds the correct one',
+  'multi-select': '"multi-select": 4-6 options, "answers" holds every correct option (at least 2)',
+  'fill-blank': '"fill-blank": the question marks the missing word or phrase with ___, "options" is empty, "answers" lists every acceptable answer (spelling variants, synonyms)',
+  'ordering': '"ordering": "options" lists 3-6 steps or items in their correct order, "answers" is empty',
+  'short-answer': '"short-answer": "options" and "answers" are empty, "rubric" says what a complete answer must mention',
+};
+
+const DIFFICULTY_INSTRUCTIONS: Record<QuizDifficulty, string> = {
+  easy: 'Easy: test recall of the main facts and definitions, with clearly wrong distractors',
+  medium: 'Medium: test understanding, mixing recall with applying ideas to simple cases',
+  hard: 'Hard: test application and analysis, with plausible distractors and multi-step reasoning',
+};
+
+// Type-specific checks the schema cannot express
+function checkQuizQuestion(q: RawQuizQuestion, path: string): string[] {
+  const errors: string[] = [];
+  const answersAreOptions = q.answers.every(answer => q.options.includes(answer));
+  switch (q.type) {
+    case 'multiple-choice':
+      if (q.options.length !== 4) errors.push(`${path}.options must have exactly 4 items`);
+      if (q.answers.length !== 1 || !answersAreOptions) errors.push(`${path}.answers must be one item that exactly matches an option`);
+      break;
+    case 'true-false':
+      if (q.options.join() !== 'True,False') errors.push(`${path}.options must be ["True", "False"]`);
+      if (q.answers.length !== 1 || !answersAreOptions) errors.push(`${path}.answers must be ["True"] or ["False"]`);
+      break;
+    case 'multi-select':
+      if (q.options.length < 4 || q.options.length > 6) errors.push(`${path}.options must have 4 to 6 items`);
+      if (q.answers.length < 2 || !answersAreOptions) errors.push(`${path}.answers must list at least 2 options, each exactly matching an option`);
+      break;
+    case 'ordering':
+      if (q.options.length < 3 || q.options.length > 6) errors.push(`${path}.options must have 3 to 6 items`);
+      if (new Set(q.options).size !== q.options.length) errors.push(`${path}.options must not repeat`);
+      break;
+    case 'fill-blank':
+      if (!q.question.includes('___')) errors.push(`${path}.question must mark the blank with ___`);
+      if (q.answers.length === 0) errors.push(`${path}.answers must list the accepted answers`);
+      break;
+    case 'short-answer':
+      if (!q.rubric?.trim()) errors.push(`${path}.rubric is required for short-answer questions`);
+      break;
+  }
+  return errors;
+}
+
+function toQuizQuestion(q: RawQuizQuestion): QuizQuestion {
+  const choice = q.type === 'multiple-choice' || q.type === 'true-false';
+  const typed = q.type === 'fill-blank' || q.type === 'short-answer';
+  return {
+    id: generateId(),
+    type: q.type,
+    question: q.question,
+    options: typed ? [] : q.options,
+    correctAnswer: choice ? q.options.indexOf(q.answers[0]) : -1,
+    correctAnswers: q.type === 'multi-select' ? q.answers.map(answer => q.options.indexOf(answer)) : undefined,
+    acceptedAnswers: q.type === 'fill-blank' ? q.answers : undefined,
+    rubric: q.type === 'short-answer' ? q.rubric?.trim() : undefined,
+    explanation: q.explanation,
+    concept: q.concept.trim() || undefined,
+  };
+}
+
+const shortAnswerGradeSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    correct: { type: 'boolean', description: 'Whether the answer covers the rubric' },
+    feedback: { type: 'string', description: 'One or two sentences for the student' },
+  },
+  required: ['correct', 'feedback'],
+};
+
+const flashcardSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          front: { type: 'string', description: 'A question or term' },
+          back: { type: 'string', description: 'The answer or definition' },
+        },
+        required: ['front', 'back'],
+      },
+    },
+  },
+  required: ['cards'],
+};
+
+// Gets JSON from a provider, re-prompting with the validation errors until it conforms
+async function generateStructured<T>(
+  provider: ProviderDefinition,
+  apiKey: string,
+  prompt: string,
+  schema: JsonSchema,
+  options: {
+    systemPrompt: string;
+    refine?: (value: T) => string[];
+    maxAttempts?: number;
+    maxRetries?: number;
+    signal?: AbortSignal;
+  }
+): Promise<T> {
+  const { systemPrompt, refine, maxAttempts = 3, maxRetries = 2, signal } = options;
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+  let lastErrors: string[] = [];
+  let lastResponse = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    lastResponse = '';
+    for await (const chunk of streamWithRetry(
+      provider, apiKey, messages, systemPrompt, { responseSchema: schema }, maxRetries, { signal }
+    )) {
+      lastResponse += chunk;
     }
-    throw error;
+
+    const result = parseStructured<T>(lastResponse, schema, refine);
+    if (result.ok) return result.value;
+
+    lastErrors = result.errors;
+    console.warn(`Structured output attempt ${attempt} failed:`, lastErrors);
+    messages.push(
+      { role: 'assistant', content: lastResponse },
+      { role: 'user', content: createRepairPrompt(lastErrors) }
+    );
   }
+
+  throw new StructuredOutputError('Model output did not match the expected format.', lastErrors, lastResponse);
+}
+
+// Images are read from storage as base64; ones that are gone (e.g. restored from an older backup) are sent by name only
+async function toChatMessage(message: Message): Promise<ChatMessage> {
+  const images = await Promise.all(
+    (message.attachments || []).filter(isImageAttachment).map(async (attachment): Promise<ImagePart | null> => {
+      const data = await readAttachmentData(attachment);
+      return data ? { mimeType: attachment.mimeType, data } : null;
+    })
+  );
+  const loaded = images.filter((image): image is ImagePart => !!image);
+  return { role: message.role, content: getMessageText(message), images: loaded.length > 0 ? loaded : undefined };
+}
+
+export interface StreamOptions {
+  // Called whenever a provider starts answering, including failover switches
+  onProvider?: (provider: ProviderDefinition) => void;
+  // Cancels the in-flight request and stops any further retries or failover
+  signal?: AbortSignal;
+  // Called once the reply ends (including stalls and cancels after text arrived)
+  onUsage?: (usage: TokenUsage) => void;
+  // Running summary of turns that were left out of `messages` (see prepareContext)
+  summary?: string;
+  // Answer with this provider instead of the selected model, without failover (compare mode)
+  providerId?: string;
+  // Ground the answer in the document library; receives the passages given to the model
+  useLibrary?: boolean;
+  onCitations?: (citations: Citation[]) => void;
+}
+
+// Library passages added to the system prompt per reply
+const MAX_SOURCES = 4;
+// A 180-word passage plus its document name, kept free in the window when the library is on
+const SOURCE_TOKEN_ESTIMATE = 300;
+
+export interface PreparedContext {
+  messages: ChatMessage[];
+  // Unchanged, newly created, or undefined when there is nothing to summarize
+  summary?: ConversationSummary;
 }
 
 class AiService {
@@ -117,8 +470,17 @@ class AiService {
     googleApiKey: '',
     zhipuApiKey: '',
     mistralApiKey: '',
+    anthropicApiKey: '',
     selectedModel: 'google',
     selectedTutorMode: 'standard',
+    customEndpoints: [],
+    endpointOverrides: {},
+    generation: {},
+    maxRetries: 2,
+    enableFailover: false,
+    prices: {},
+    autoLockMinutes: 15,
+    useLibrary: false,
   };
 
   public updateSettings(newSettings: APISettings) {
@@ -129,348 +491,406 @@ class AiService {
     return tutorPrompts[this.settings.selectedTutorMode] || tutorPrompts.standard;
   }
 
-  // NEW: Method specifically for flowchart generation that ALWAYS uses Google Gemini 2.5 Flash
-  public async *generateFlowchartResponse(
-    messages: { role: string; content: string }[]
-  ): AsyncGenerator<string> {
-    if (!this.settings.googleApiKey) {
-      throw new Error('Google API key not set. Flowchart generation requires Google API.');
+  /**
+   * The model for quizzes, grading, flashcards and flowcharts. These run on
+   * Gemini, except while a custom endpoint is selected: then they use that
+   * endpoint too, so study material stays on the user's own server.
+   */
+  private getStudyProvider(gemini: ProviderDefinition, task: string): { provider: ProviderDefinition; apiKey: string } {
+    if (this.settings.selectedModel.startsWith(CUSTOM_PROVIDER_PREFIX)) {
+      const provider = getProvider(this.settings.selectedModel, this.settings);
+      if (!provider) {
+        throw new Error('The selected custom endpoint is missing its URL or model.');
+      }
+      return { provider, apiKey: getProviderApiKey(provider, this.settings) };
     }
-
-    if (!messages || messages.length === 0) {
-      throw new Error('No messages provided');
+    if (!this.settings.googleApiKey) {
+      throw new Error(`Google API key must be configured to ${task}.`);
     }
+    return { provider: gemini, apiKey: this.settings.googleApiKey };
+  }
 
-    const userMessages = messages.map(m => ({ role: m.role, content: m.content }));
-    
-    // Use minimal system prompt for flowchart generation
-    const systemPrompt = 'You are a helpful assistant that generates flowcharts in JSON format.';
-
-    const googleUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:streamGenerateContent?key=${this.settings.googleApiKey}&alt=sse`;
-
-    // Prepend system prompt + user messages (Gemini-compatible)
-    const googleMessages = [
-      { role: 'user', parts: [{ text: systemPrompt }] },
-      { role: 'model', parts: [{ text: 'Understood. I will follow this role.' }] },
-      ...userMessages.map(m => ({
-        role: m.role === 'assistant' ? 'model' : 'user',
-        parts: [{ text: m.content }],
-      })),
-    ];
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60s timeout for flowchart
+  // Flowchart structure generation on Gemini 2.5 Pro, or the selected custom endpoint
+  public async generateFlowchartStructure<T>(
+    prompt: string,
+    schema: JsonSchema,
+    refine?: (value: T) => string[],
+    signal?: AbortSignal
+  ): Promise<T> {
+    const { provider, apiKey } = this.getStudyProvider(flowchartProvider, 'generate flowcharts');
 
     try {
-      const response = await fetch(googleUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ contents: googleMessages }),
-        signal: controller.signal,
+      return await generateStructured<T>(provider, apiKey, prompt, schema, {
+        // Use minimal system prompt for flowchart generation
+        systemPrompt: 'You are a helpful assistant that generates flowcharts in JSON format.',
+        refine,
+        signal,
       });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorBody = await response.text();
-        throw new Error(`Google API Error: ${response.status} - ${errorBody}`);
+    } catch (error) {
+      if (error instanceof ProviderError && (error.kind === 'timeout' || error.kind === 'stalled')) {
+        throw new Error('Flowchart generation timed out');
       }
+      throw error;
+    }
+  }
 
-      if (!response.body) throw new Error('Response body is null');
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
+  /**
+   * Fits a conversation into the context window of the model(s) about to
+   * answer, the selected model by default. Turns that no longer fit are folded
+   * into the running summary; if summarizing fails they are simply left out of
+   * this request.
+   */
+  public async prepareContext(
+    conversation: Conversation,
+    signal?: AbortSignal,
+    providerIds: string[] = [this.settings.selectedModel]
+  ): Promise<PreparedContext> {
+    // When several models will answer, plan for the smallest window so the same context fits all of them
+    const providers = providerIds
+      .map(id => getProvider(id, this.settings))
+      .filter((p): p is ProviderDefinition => !!p);
+    const provider = providers[0];
+    const contextWindow = providers.length > 0
+      ? Math.min(...providers.map(p => p.contextWindow || DEFAULT_CONTEXT_WINDOW))
+      : DEFAULT_CONTEXT_WINDOW;
+    const reserved = estimateTokens(this.getSystemPrompt())
+      + (this.settings.generation.maxOutputTokens || 0)
+      + (this.settings.useLibrary ? MAX_SOURCES * SOURCE_TOKEN_ESTIMATE : 0);
+    const plan = planContext(conversation, contextWindow, reserved);
+    let { summary } = getUnsummarizedMessages(conversation);
+
+    if (provider && plan.toSummarize.length > 0) {
       try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const json = JSON.parse(line.substring(6));
-                const chunk = json.candidates?.[0]?.content?.parts?.[0]?.text;
-                if (chunk) yield chunk;
-              } catch (e) { 
-                console.error('Error parsing Google stream:', e); 
-              }
-            }
-          }
+        // Very long histories are folded in over several replies so the summary request fits the window
+        const inputBudget = getSummaryInputBudget(contextWindow, summary?.text);
+        const toSummarize = takeForSummary(plan.toSummarize, inputBudget);
+        let text = '';
+        for await (const chunk of streamWithRetry(
+          provider,
+          getProviderApiKey(provider, this.settings),
+          [{ role: 'user', content: createSummaryPrompt(summary?.text, toSummarize, inputBudget) }],
+          'You write concise, factual summaries of tutoring conversations.',
+          {},
+          this.settings.maxRetries,
+          { signal }
+        )) {
+          text += chunk;
         }
-      } finally {
-        reader.releaseLock();
-      }
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Flowchart generation timed out');
+        if (text.trim()) {
+          summary = {
+            text: text.trim(),
+            upToMessageId: toSummarize[toSummarize.length - 1].id,
+            updatedAt: new Date(),
+          };
+        }
+      } catch (error) {
+        if (error instanceof ProviderError && error.kind === 'cancelled') throw error;
+        console.error('Could not summarize older messages, leaving them out instead:', error);
       }
-      throw error;
     }
+
+    return {
+      messages: await Promise.all(plan.messages.map(toChatMessage)),
+      summary,
+    };
   }
 
-  // Unified streaming response generator with error handling
+  // Unified streaming response generator with retry and optional provider failover
   public async *generateStreamingResponse(
-    messages: { role: string; content: string }[]
+    messages: ChatMessage[],
+    options: StreamOptions = {}
   ): AsyncGenerator<string> {
     if (!messages || messages.length === 0) {
       throw new Error('No messages provided');
     }
 
-    const userMessages = messages.map(m => ({ role: m.role, content: m.content }));
-    const systemPrompt = this.getSystemPrompt();
+    const userMessages = messages.map(m => ({ role: m.role, content: m.content, images: m.images }));
+    let systemPrompt = withSummary(this.getSystemPrompt(), options.summary);
 
-    try {
-      switch (this.settings.selectedModel) {
-        case 'google': {
-          if (!this.settings.googleApiKey) throw new Error('Google API key not set');
-          
-          const googleUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemma-3-27b-it:streamGenerateContent?key=${this.settings.googleApiKey}&alt=sse`;
-
-          // Prepend system prompt + user messages (Gemma-compatible)
-          const googleMessages = [
-            { role: 'user', parts: [{ text: systemPrompt }] },
-            { role: 'model', parts: [{ text: 'Understood. I will follow this role.' }] },
-            ...userMessages.map(m => ({
-              role: m.role === 'assistant' ? 'model' : 'user',
-              parts: [{ text: m.content }],
-            })),
-          ];
-
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-          try {
-            const response = await fetch(googleUrl, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ contents: googleMessages }),
-              signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-              const errorBody = await response.text();
-              throw new Error(`Google API Error: ${response.status} - ${errorBody}`);
-            }
-
-            if (!response.body) throw new Error('Response body is null');
-
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-            let buffer = '';
-
-            try {
-              while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-                
-                buffer += decoder.decode(value, { stream: true });
-                const lines = buffer.split('\n');
-                buffer = lines.pop() || '';
-                
-                for (const line of lines) {
-                  if (line.startsWith('data: ')) {
-                    try {
-                      const json = JSON.parse(line.substring(6));
-                      const chunk = json.candidates?.[0]?.content?.parts?.[0]?.text;
-                      if (chunk) yield chunk;
-                    } catch (e) { 
-                      console.error('Error parsing Google stream:', e); 
-                    }
-                  }
-                }
-              }
-            } finally {
-              reader.releaseLock();
-            }
-          } catch (error) {
-            clearTimeout(timeoutId);
-            if (error instanceof Error && error.name === 'AbortError') {
-              throw new Error('Request timed out');
-            }
-            throw error;
+    if (options.useLibrary) {
+      try {
+        const passages = await searchLibrary(buildRetrievalQuery(messages), MAX_SOURCES);
+        systemPrompt = withSources(systemPrompt, passages);
+        if (passages.length > 0) options.onCitations?.(passages);
+      } catch (error) {
+        console.error('Could not search the document library, answering without it:', error);
+      }
+    }
+
+    const provider = getProvider(options.providerId ?? this.settings.selectedModel, this.settings);
+    if (!provider) {
+      throw new Error('Invalid model selected or API key not set.');
+    }
+
+    if (!isProviderConfigured(provider, this.settings)) {
+      throw new Error(`${provider.keyLabel} API key not set`);
+    }
+
+    // A self-hosted endpoint only fails over to other self-hosted endpoints, so the
+    // conversation never reaches a cloud provider the student did not choose
+    const selfHosted = provider.id.startsWith(CUSTOM_PROVIDER_PREFIX);
+    const candidates = this.settings.enableFailover && !options.providerId
+      ? [
+          provider,
+          ...listProviders(this.settings).filter(p =>
+            p.id !== provider.id &&
+            isProviderConfigured(p, this.settings) &&
+            (!selfHosted || p.id.startsWith(CUSTOM_PROVIDER_PREFIX))
+          ),
+        ]
+      : [provider];
+
+    let firstError: ProviderError | null = null;
+
+    for (const candidate of candidates) {
+      let response = '';
+      let reported: Partial<TokenUsage> = {};
+      options.onProvider?.(candidate);
+      const candidateMessages = candidate.capabilities.vision
+        ? userMessages
+        : userMessages.map(({ role, content }) => ({ role, content }));
+
+      // Providers that do not report usage fall back to a local estimate
+      const reportUsage = () => {
+        const promptText = [systemPrompt, ...userMessages.map(m => m.content)].join('\n');
+        options.onUsage?.({
+          promptTokens: reported.promptTokens ?? estimateTokens(promptText),
+          completionTokens: reported.completionTokens ?? estimateTokens(response),
+          estimated: reported.promptTokens === undefined || reported.completionTokens === undefined,
+        });
+      };
+
+      try {
+        for await (const chunk of streamWithRetry(
+          candidate,
+          getProviderApiKey(candidate, this.settings),
+          candidateMessages,
+          systemPrompt,
+          { generation: this.settings.generation },
+          this.settings.maxRetries,
+          {
+            signal: options.signal,
+            onUsage: usage => {
+              reported = {
+                promptTokens: usage.promptTokens ?? reported.promptTokens,
+                completionTokens: usage.completionTokens ?? reported.completionTokens,
+              };
+            },
           }
-          break;
+        )) {
+          response += chunk;
+          yield chunk;
         }
-
-        case 'zhipu':
-          if (!this.settings.zhipuApiKey) throw new Error('ZhipuAI API key not set');
-          yield* streamOpenAICompatResponse(
-            'https://open.bigmodel.cn/api/paas/v4/chat/completions',
-            this.settings.zhipuApiKey,
-            'glm-4.5-flash',
-            userMessages,
-            systemPrompt
-          );
-          break;
-
-        case 'mistral-small':
-          if (!this.settings.mistralApiKey) throw new Error('Mistral API key not set');
-          yield* streamOpenAICompatResponse(
-            'https://api.mistral.ai/v1/chat/completions',
-            this.settings.mistralApiKey,
-            'mistral-small-latest',
-            userMessages,
-            systemPrompt
-          );
-          break;
-
-        case 'mistral-codestral':
-          if (!this.settings.mistralApiKey) throw new Error('Mistral API key not set for Codestral');
-          yield* streamOpenAICompatResponse(
-            'https://api.mistral.ai/v1/chat/completions',
-            this.settings.mistralApiKey,
-            'codestral-latest',
-            userMessages,
-            systemPrompt
-          );
-          break;
-
-        default:
-          throw new Error('Invalid model selected or API key not set.');
+        reportUsage();
+        return;
+      } catch (error) {
+        const providerError = toProviderError(error);
+        const emitted = response.length > 0;
+        if (emitted) reportUsage();
+        if (providerError.kind === 'cancelled') throw providerError;
+        console.error(`Error in generateStreamingResponse (${candidate.name}):`, providerError);
+        // A partially streamed answer cannot be continued by a different model
+        if (emitted) throw providerError;
+        firstError = firstError || providerError;
       }
-    } catch (error) {
-      console.error('Error in generateStreamingResponse:', error);
-      throw error;
     }
+
+    throw firstError || new Error('No provider available');
   }
 
   // Quiz generation with better error handling
-  public async generateQuiz(conversation: Conversation): Promise<StudySession> {
-    if (!this.settings.googleApiKey) {
-      throw new Error('Google API key must be configured to generate quizzes.');
-    }
-
-    if (!conversation.messages || conversation.messages.length < 2) {
-      throw new Error('Conversation must have at least 2 messages to generate a quiz.');
-    }
+  public async generateQuiz(material: QuizMaterial, options: QuizOptions, signal?: AbortSignal): Promise<StudySession> {
+    const { provider, apiKey } = this.getStudyProvider(quizProvider, 'generate quizzes');
 
-    const conversationText = conversation.messages
-      .map(m => `${m.role === 'user' ? 'Q:' : 'A:'} ${m.content}`)
-      .join('\n\n');
+    const { questionCount, difficulty, questionTypes, focusTopics } = options;
+    const types = questionTypes.length > 0 ? questionTypes : QUESTION_TYPES;
+    const mix = types.length === 1
+      ? `All questions must be of type "${types[0]}"`
+      : 'Use a mix of these types, picking the one that suits each concept (processes suit ordering, definitions suit fill-blank, explanations suit short-answer)';
 
-    const prompt = `Based on the following conversation, create a multiple-choice quiz with 5 questions to test understanding of the key concepts discussed.
+    const prompt = `Based on the following ${material.label}, create a quiz with ${questionCount} questions to test understanding of the key concepts.
 
-Conversation:
+Source (${material.label}):
 ---
-${conversationText.slice(0, 6000)}
+${material.text}
 ---
 
+QUESTION TYPES (set "type" to one of these):
+${types.map(type => `- ${QUESTION_TYPE_INSTRUCTIONS[type]}`).join('\n')}
+
+DIFFICULTY: ${DIFFICULTY_INSTRUCTIONS[difficulty]}
+${focusTopics.length > 0 ? `\nFOCUS: Only ask about these topics, as covered in the source: ${focusTopics.join(', ')}\n` : ''}
 IMPORTANT INSTRUCTIONS:
-1. Create exactly 5 multiple-choice questions
-2. Each question must have exactly 4 options
-3. One option must be the correct answer
+1. Create exactly ${questionCount} questions
+2. ${mix}
+3. Option and answer texts must match exactly, character for character
 4. Include a brief explanation for each answer
+5. Name the concept each question tests in 1-4 words (e.g. "Photosynthesis", "Chain rule"), reusing the same name for questions on the same concept
 
 OUTPUT FORMAT - Return ONLY this JSON structure with no extra text, no markdown, no code blocks:
 
 {
   "questions": [
     {
+      "type": "${types[0]}",
       "question": "What is the main concept discussed?",
-      "options": ["Option A", "Option B", "Option C", "Option D"],
-      "answer": "Option B",
-      "explanation": "Brief explanation of why this is correct"
+      "options": [...],
+      "answers": [...],
+      "explanation": "Brief explanation of why this is correct",
+      "concept": "Main concept"
     }
   ]
 }
 
 Generate the quiz now:`;
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000);
-
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemma-3-27b-it:generateContent?key=${this.settings.googleApiKey}`,
+      const parsed = await generateStructured<{ questions: RawQuizQuestion[] }>(
+        provider,
+        apiKey,
+        prompt,
+        quizSchema,
         {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [
-              { role: 'user', parts: [{ text: prompt }] },
-              { role: 'model', parts: [{ text: 'Understood. I will return only JSON.' }] }
-            ],
-          }),
-          signal: controller.signal,
+          systemPrompt: 'You are a quiz generator. You reply with JSON only.',
+          refine: ({ questions }) => [
+            ...(questions.length === questionCount ? [] : [`$.questions must contain exactly ${questionCount} items`]),
+            ...questions.flatMap((q, index) =>
+              types.includes(q.type)
+                ? checkQuizQuestion(q, `$.questions[${index}]`)
+                : [`$.questions[${index}].type must be one of: ${types.join(', ')}`]
+            ),
+          ],
+          signal,
         }
       );
 
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`API Error: ${response.status} - ${errorText}`);
+      const questions = parsed.questions.map(toQuizQuestion);
+
+      return {
+        id: generateId(),
+        conversationId: material.conversationId,
+        title: material.title,
+        questions,
+        currentQuestionIndex: 0,
+        score: 0,
+        totalQuestions: questions.length,
+        isCompleted: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error("Failed to get a valid quiz:", error.errors, "Raw response:", error.rawResponse);
+        throw new Error(`Could not generate a valid quiz from the ${material.label}. Please try again.`);
       }
+      if (error instanceof ProviderError && (error.kind === 'timeout' || error.kind === 'stalled')) {
+        throw new Error('Quiz generation timed out. Please try again.');
+      }
+      throw error;
+    }
+  }
+
+  // Judges a short answer against the question's rubric
+  public async gradeShortAnswer(question: QuizQuestion, answer: string, signal?: AbortSignal): Promise<{ isCorrect: boolean; feedback: string }> {
+    const { provider, apiKey } = this.getStudyProvider(quizProvider, 'grade answers');
+
+    const prompt = `Grade a student's answer to a quiz question.
+
+Question: ${question.question}
+Rubric (what a complete answer must cover): ${describeCorrectAnswer(question)}
+Background for the grader: ${question.explanation}
+
+Student's answer:
+---
+${answer}
+---
 
-      const data = await response.json();
-      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      
-      if (!textResponse) {
-        throw new Error('Invalid response from API when generating quiz.');
+Mark it correct when it covers the rubric's key points, even if worded differently or briefly. Ignore spelling and grammar.
+Feedback is 1-2 sentences addressed to the student: what was right, and what was missing if anything.
+
+Return ONLY JSON: { "correct": true or false, "feedback": "..." }`;
+
+    try {
+      const parsed = await generateStructured<{ correct: boolean; feedback: string }>(
+        provider,
+        apiKey,
+        prompt,
+        shortAnswerGradeSchema,
+        { systemPrompt: 'You are a fair, encouraging grader. You reply with JSON only.', signal }
+      );
+      return { isCorrect: parsed.correct, feedback: parsed.feedback.trim() };
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error("Failed to grade answer:", error.errors, "Raw response:", error.rawResponse);
+        throw new Error('Could not grade this answer. Please try again.');
       }
+      if (error instanceof ProviderError && (error.kind === 'timeout' || error.kind === 'stalled')) {
+        throw new Error('Grading timed out. Please try again.');
+      }
+      throw error;
+    }
+  }
 
-      try {
-        const cleanText = textResponse
-          .replace(/```json/g, '')
-          .replace(/```/g, '')
-          .trim();
+  // Builds a deck from a conversation's transcript or a note's text
+  public async generateFlashcards(source: Conversation | Note, signal?: AbortSignal): Promise<FlashcardDeck> {
+    const { provider, apiKey } = this.getStudyProvider(quizProvider, 'generate flashcards');
 
-        const parsed = JSON.parse(cleanText);
+    const isConversation = 'messages' in source;
+    if (isConversation && source.messages.length < 2) {
+      throw new Error('Conversation must have at least 2 messages to generate flashcards.');
+    }
+    if (!isConversation && !source.content.trim()) {
+      throw new Error('Note is empty.');
+    }
 
-        if (!parsed.questions || !Array.isArray(parsed.questions)) {
-          throw new Error('Quiz JSON missing questions array.');
-        }
+    const material = isConversation ? buildTranscript(source, 16000) : source.content;
+    const prompt = `Create flashcards for studying the key facts, terms and ideas in the following ${isConversation ? 'conversation' : 'notes'}.
 
-        if (parsed.questions.length === 0) {
-          throw new Error('No questions generated. Try a longer conversation.');
-        }
+${isConversation ? 'Conversation' : 'Notes'}:
+---
+${material}
+---
 
-        const questions: QuizQuestion[] = parsed.questions.map((q: any, index: number) => {
-          if (!q.question || !q.options || !Array.isArray(q.options) || !q.answer || !q.explanation) {
-            throw new Error(`Invalid question format at index ${index}`);
-          }
+IMPORTANT INSTRUCTIONS:
+1. Create between 5 and 15 cards, one idea per card
+2. The front is a short question or term; the back is a concise answer (at most 2 sentences)
+3. Cards must be answerable without seeing the source
+4. Skip greetings, small talk and anything not worth remembering
 
-          const correctIndex = q.options.indexOf(q.answer);
-          if (correctIndex === -1) {
-            throw new Error(`Correct answer not found in options at index ${index}`);
-          }
+Return ONLY JSON in this shape: { "cards": [ { "front": "...", "back": "..." } ] }`;
 
-          return {
-            id: generateId(),
-            question: q.question,
-            options: q.options,
-            correctAnswer: correctIndex,
-            explanation: q.explanation,
-          };
-        });
+    try {
+      const parsed = await generateStructured<{ cards: { front: string; back: string }[] }>(
+        provider,
+        apiKey,
+        prompt,
+        flashcardSchema,
+        {
+          systemPrompt: 'You are a flashcard generator. You reply with JSON only.',
+          refine: ({ cards }) => cards.flatMap((card, index) =>
+            card.front.trim() && card.back.trim() ? [] : [`$.cards[${index}] must have a non-empty front and back`]
+          ),
+          signal,
+        }
+      );
 
-        return {
-          id: generateId(),
-          conversationId: conversation.id,
-          questions,
-          currentQuestionIndex: 0,
-          score: 0,
-          totalQuestions: questions.length,
-          isCompleted: false,
-          createdAt: new Date(),
-        };
-      } catch (error) {
-        console.error("Failed to parse quiz JSON:", error, "Raw response:", textResponse);
-        throw new Error("Could not generate a valid quiz from the conversation. Please try again.");
-      }
+      const now = new Date();
+      return {
+        id: generateId(),
+        title: source.title,
+        cards: parsed.cards.map(card => createCard(card.front.trim(), card.back.trim(), now)),
+        sourceConversationId: isConversation ? source.id : undefined,
+        sourceNoteId: isConversation ? undefined : source.id,
+        createdAt: now,
+        updatedAt: now,
+      };
     } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Quiz generation timed out. Please try again.');
+      if (error instanceof StructuredOutputError) {
+        console.error("Failed to get valid flashcards:", error.errors, "Raw response:", error.rawResponse);
+        throw new Error('Could not generate flashcards. Please try again.');
+      }
+      if (error instanceof ProviderError && (error.kind === 'timeout' || error.kind === 'stalled')) {
+        throw new Error('Flashcard generation timed out. Please try again.');
       }
       throw error;
     }
@@ -0,0 +1,157 @@
+// src/services/contextManager.ts
+import { Conversation, ConversationSummary, Message } from '../types';
+import { getMessageText } from '../utils/attachments';
+import { estimateTokens } from './tokenUsage';
+
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Share of the window given to history; the rest is left for the summary, system prompt and reply
+const HISTORY_SHARE = 0.6;
+// When older turns are folded away, this share of the history budget stays verbatim
+const RECENT_SHARE = 0.5;
+// Rough per-message cost of role markers and separators
+const MESSAGE_OVERHEAD = 4;
+// Smallest share of a summary request given to the turns being folded in
+const MIN_SUMMARY_INPUT = 1024;
+
+export interface ContextPlan {
+  // Turns sent to the model verbatim
+  messages: Message[];
+  // Older turns that should be folded into the running summary
+  toSummarize: Message[];
+}
+
+// Counts extracted PDF text as well; images are left out of the estimate
+export function estimateMessageTokens(messages: Pick<Message, 'content' | 'attachments'>[]): number {
+  return messages.reduce((total, m) => total + estimateTokens(getMessageText(m)) + MESSAGE_OVERHEAD, 0);
+}
+
+/**
+ * Splits a conversation into its stored summary and the turns after it.
+ * A summary whose cut-off message is gone (edited or regenerated away) is ignored.
+ */
+export function getUnsummarizedMessages(conversation: Conversation): {
+  summary?: ConversationSummary;
+  messages: Message[];
+} {
+  const { summary, messages } = conversation;
+  const index = summary ? messages.findIndex(m => m.id === summary.upToMessageId) : -1;
+  if (!summary || index === -1) return { messages };
+  return { summary, messages: messages.slice(index + 1) };
+}
+
+/**
+ * Decides which turns fit the model's window. When the history is too long,
+ * the newest turns are kept and everything older is marked for summarizing.
+ */
+export function planContext(
+  conversation: Conversation,
+  contextWindow: number,
+  reservedTokens: number
+): ContextPlan {
+  const { summary, messages } = getUnsummarizedMessages(conversation);
+  if (messages.length === 0) return { messages, toSummarize: [] };
+
+  // A small window with a long system prompt can leave nothing for history,
+  // so the budget never drops below what the latest student turn needs
+  let latestUserIndex = messages.length - 1;
+  while (latestUserIndex > 0 && messages[latestUserIndex].role !== 'user') latestUserIndex--;
+  const minimumBudget = estimateMessageTokens(messages.slice(latestUserIndex));
+  const budget = Math.max(
+    minimumBudget,
+    Math.floor(contextWindow * HISTORY_SHARE) - reservedTokens - estimateTokens(summary?.text || '')
+  );
+
+  if (estimateMessageTokens(messages) <= budget) {
+    return { messages, toSummarize: [] };
+  }
+
+  // Always keep the latest student turn, then walk backwards while the recent budget allows
+  const recentBudget = Math.max(minimumBudget, budget * RECENT_SHARE);
+  let splitIndex = messages.length - 1;
+  let used = estimateMessageTokens([messages[splitIndex]]);
+  while (splitIndex > 0) {
+    const cost = estimateMessageTokens([messages[splitIndex - 1]]);
+    if (used + cost > recentBudget) break;
+    used += cost;
+    splitIndex--;
+  }
+
+  // Start the verbatim window on a student turn so the history reads naturally
+  while (splitIndex < messages.length - 1 && messages[splitIndex].role !== 'user') {
+    splitIndex++;
+  }
+
+  return { messages: messages.slice(splitIndex), toSummarize: messages.slice(0, splitIndex) };
+}
+
+export function formatTranscript(messages: Pick<Message, 'role' | 'content' | 'attachments'>[]): string {
+  return messages
+    .map(m => `${m.role === 'user' ? 'Q:' : 'A:'} ${getMessageText(m)}`)
+    .join('\n\n');
+}
+
+/**
+ * Builds a transcript for one-off tasks such as quizzes: the running summary
+ * (if any) followed by as many of the newest turns as fit in `tokenBudget`.
+ */
+export function buildTranscript(conversation: Conversation, tokenBudget: number): string {
+  const { summary, messages } = getUnsummarizedMessages(conversation);
+  let remaining = tokenBudget - estimateTokens(summary?.text || '');
+  const kept: Message[] = [];
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = estimateMessageTokens([messages[i]]);
+    if (cost > remaining) break;
+    kept.unshift(messages[i]);
+    remaining -= cost;
+  }
+
+  const transcript = formatTranscript(kept);
+  return summary ? `Summary of earlier discussion: ${summary.text}\n\n${transcript}` : transcript;
+}
+
+/**
+ * How much of the summary request's window the turns to fold in may use:
+ * the history share, less the current summary. Never below a small floor.
+ */
+export function getSummaryInputBudget(contextWindow: number, previousSummary?: string): number {
+  return Math.max(MIN_SUMMARY_INPUT, Math.floor(contextWindow * HISTORY_SHARE) - estimateTokens(previousSummary || ''));
+}
+
+/**
+ * The oldest turns that fit in `tokenBudget` (always at least one). The rest
+ * stay out of this request and are folded in by a later summary.
+ */
+export function takeForSummary(messages: Message[], tokenBudget: number): Message[] {
+  let used = 0;
+  let count = 0;
+  while (count < messages.length) {
+    const cost = estimateMessageTokens([messages[count]]);
+    if (count > 0 && used + cost > tokenBudget) break;
+    used += cost;
+    count++;
+  }
+  return messages.slice(0, count);
+}
+
+export function createSummaryPrompt(previousSummary: string | undefined, messages: Message[], tokenBudget: number): string {
+  // A single turn can still be longer than the budget (e.g. a pasted PDF)
+  const transcript = formatTranscript(messages);
+  const charLimit = tokenBudget * 4;
+  const turns = transcript.length > charLimit ? `${transcript.slice(0, charLimit)}\n[truncated]` : transcript;
+  return `Update the running summary of a tutoring conversation so it can replace the turns below.
+
+${previousSummary ? `Current summary:\n${previousSummary}\n\n` : ''}New turns to fold in:
+---
+${turns}
+---
+
+Keep the topics covered, the key explanations and definitions, what the student struggled with, and any open questions. Write at most 300 words of plain prose and return only the summary.`;
+}
+
+// The summary rides along in the system prompt so every provider sees it the same way
+export function withSummary(systemPrompt: string, summary?: string): string {
+  if (!summary) return systemPrompt;
+  return `${systemPrompt}\n\nSummary of the earlier part of this conversation (older messages are not shown):\n${summary}`;
+}
@@ -3,6 +3,7 @@ import { Conversation } from '../types';
 import { Flowchart, FlowchartNode, FlowchartEdge, NodeType } from '../types/flowchart';
 import { generateId } from '../utils/helpers';
 import { aiService } from './aiService';
+import { JsonSchema, StructuredOutputError } from './structuredOutput';
 
 interface AnalyzedContent {
   mainTopic: string;
@@ -11,6 +12,62 @@ interface AnalyzedContent {
   relationships: Array<{ from: string; to: string; relationship: string }>;
 }
 
+interface GeneratedFlowchart {
+  title: string;
+  description?: string;
+  nodes: { id: string; type: string; label: string; description?: string; position: { x: number; y: number } }[];
+  edges: { id?: string; source: string; target: string; label?: string }[];
+}
+
+const flowchartSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    nodes: {
+      type: 'array',
+      minItems: 2,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', enum: ['start', 'process', 'decision', 'end', 'topic', 'concept'] },
+          label: { type: 'string' },
+          description: { type: 'string' },
+          position: {
+            type: 'object',
+            properties: { x: { type: 'number' }, y: { type: 'number' } },
+            required: ['x', 'y'],
+          },
+        },
+        required: ['id', 'type', 'label', 'position'],
+      },
+    },
+    edges: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          source: { type: 'string' },
+          target: { type: 'string' },
+          label: { type: 'string' },
+        },
+        required: ['source', 'target'],
+      },
+    },
+  },
+  required: ['title', 'nodes', 'edges'],
+};
+
+function checkEdgeReferences(data: GeneratedFlowchart): string[] {
+  const nodeIds = new Set(data.nodes.map(n => n.id));
+  return data.edges.flatMap((edge, index) => [
+    ...(nodeIds.has(edge.source) ? [] : [`$.edges[${index}].source "${edge.source}" is not a node id`]),
+    ...(nodeIds.has(edge.target) ? [] : [`$.edges[${index}].target "${edge.target}" is not a node id`]),
+  ]);
+}
+
 // Enhanced prompt for better flowchart generation
 function createFlowchartPrompt(conversationText: string): string {
   return `You are an expert educational content analyzer and flowchart designer. Your task is to create a visually appealing and educationally effective learning flowchart from a conversation.
@@ -392,7 +449,8 @@ function validateAndFixFlowchart(data: any, conversation: Conversation): Flowcha
 }
 
 export async function generateFlowchartFromConversation(
-  conversation: Conversation
+  conversation: Conversation,
+  signal?: AbortSignal
 ): Promise<Flowchart> {
   if (!conversation.messages || conversation.messages.length < 2) {
     throw new Error('Conversation must have at least 2 messages to generate a flowchart.');
@@ -413,41 +471,31 @@ export async function generateFlowchartFromConversation(
   const prompt = createFlowchartPrompt(conversationText);
   
   try {
-    // Use dedicated flowchart method that ALWAYS uses Gemini 2.5 Flash
-    let fullResponse = '';
-    
-    for await (const chunk of aiService.generateFlowchartResponse([
-      { role: 'user', content: prompt }
-    ])) {
-      fullResponse += chunk;
-    }
-    
-    // Clean the response - remove markdown, code blocks, and extra text
-    let cleanText = fullResponse.trim();
-    
-    // Remove markdown code blocks
-    cleanText = cleanText.replace(/```json\s*/gi, '').replace(/```\s*/g, '');
-    
-    // Find JSON object (look for first { and last })
-    const firstBrace = cleanText.indexOf('{');
-    const lastBrace = cleanText.lastIndexOf('}');
-    
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-      cleanText = cleanText.substring(firstBrace, lastBrace + 1);
-    }
-    
-    // Parse the JSON
-    const parsed = JSON.parse(cleanText);
+    // Use dedicated flowchart method (Gemini 2.5 Pro, or the selected custom endpoint) with a response schema
+    const parsed = await aiService.generateFlowchartStructure<GeneratedFlowchart>(
+      prompt,
+      flowchartSchema,
+      checkEdgeReferences,
+      signal
+    );
     
     // Validate and fix the flowchart
     return validateAndFixFlowchart(parsed, conversation);
     
   } catch (error) {
-    console.error('Error generating flowchart with AI:', error);
+    if (!(error instanceof StructuredOutputError)) {
+      throw error;
+    }
+
+    console.error('AI flowchart did not match the schema after retries:', error.errors);
     console.log('Falling back to structured flowchart generation');
     
     // Use fallback method
-    return createFallbackFlowchart(conversation, analyzed);
+    const fallback = createFallbackFlowchart(conversation, analyzed);
+    return {
+      ...fallback,
+      description: 'Basic outline created because the AI response could not be parsed',
+    };
   }
 }
 
@@ -0,0 +1,398 @@
+// src/services/providers.ts
+import { APISettings, ApiKeyField, CustomEndpoint, GenerationSettings, TokenUsage } from '../types';
+import { ServerSentEvent } from './sse';
+import { JsonSchema, toGeminiSchema } from './structuredOutput';
+
+export type AuthStyle = 'bearer' | 'query-key' | 'x-api-key' | 'none';
+
+// Icon keys are resolved to components by the UI so this module stays UI-free
+export type ProviderIcon = 'sparkles' | 'brain' | 'cloud' | 'terminal' | 'server' | 'bot';
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+  // Only sent to providers with the vision capability; others get the text alone
+  images?: ImagePart[];
+}
+
+export interface ImagePart {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  systemPrompt: boolean;
+  vision: boolean;
+  jsonMode: boolean;
+}
+
+// Streaming watchdog limits: how long to wait for the first token, then between chunks
+export interface StreamTimeouts {
+  firstTokenMs: number;
+  idleMs: number;
+}
+
+export const DEFAULT_STREAM_TIMEOUTS: StreamTimeouts = { firstTokenMs: 30000, idleMs: 20000 };
+
+export interface RequestOptions {
+  generation?: GenerationSettings;
+  // Send the system prompt as ordinary turns for models that reject a native system field
+  inlineSystemPrompt?: boolean;
+  // Ask for JSON matching this schema when the provider supports JSON mode
+  responseSchema?: JsonSchema;
+  // Leave out `stream_options` for OpenAI-compatible servers that reject it
+  omitStreamUsage?: boolean;
+}
+
+export interface StreamDelta {
+  text?: string;
+  done?: boolean;
+  error?: string;
+  // Usage may arrive in pieces (Anthropic reports input and output tokens in separate events)
+  usage?: Partial<TokenUsage>;
+}
+
+export type StreamParser = (event: ServerSentEvent) => StreamDelta;
+
+export interface ProviderDefinition {
+  id: string;
+  name: string;
+  shortName: string;
+  icon: ProviderIcon;
+  endpoint: string;
+  model: string;
+  auth: AuthStyle;
+  apiKeyField?: ApiKeyField;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  keyLabel: string;
+  capabilities: ProviderCapabilities;
+  timeouts?: Partial<StreamTimeouts>;
+  contextWindow?: number; // input tokens the model accepts; see DEFAULT_CONTEXT_WINDOW
+  buildBody: (messages: ChatMessage[], systemPrompt: string, options?: RequestOptions) => unknown;
+  parseStream: StreamParser;
+}
+
+// --- Stream parsers ---
+
+export const parseOpenAIStream: StreamParser = ({ data }) => {
+  if (data.trim() === '[DONE]') return { done: true };
+  try {
+    const json = JSON.parse(data);
+    return {
+      text: json.choices?.[0]?.delta?.content || undefined,
+      // Sent on the final chunk by providers that report streaming usage
+      usage: json.usage
+        ? { promptTokens: json.usage.prompt_tokens, completionTokens: json.usage.completion_tokens }
+        : undefined,
+    };
+  } catch (e) {
+    console.error('Error parsing stream chunk:', e, 'Raw data:', data);
+    return {};
+  }
+};
+
+export const parseGeminiStream: StreamParser = ({ data }) => {
+  try {
+    const json = JSON.parse(data);
+    const parts: { text?: string }[] = json.candidates?.[0]?.content?.parts || [];
+    const text = parts.map(p => p.text || '').join('');
+    // usageMetadata is cumulative, so the last chunk carries the final counts
+    const usage = json.usageMetadata
+      ? { promptTokens: json.usageMetadata.promptTokenCount, completionTokens: json.usageMetadata.candidatesTokenCount }
+      : undefined;
+    return { text: text || undefined, usage };
+  } catch (e) {
+    console.error('Error parsing Google stream:', e);
+    return {};
+  }
+};
+
+// Anthropic sends typed events; only text deltas carry content
+export const parseAnthropicStream: StreamParser = ({ event, data }) => {
+  try {
+    const json = JSON.parse(data);
+    const type = event || json.type;
+    switch (type) {
+      case 'message_start':
+        return { usage: { promptTokens: json.message?.usage?.input_tokens } };
+      case 'message_delta':
+        return { usage: { completionTokens: json.usage?.output_tokens } };
+      case 'content_block_delta':
+        return { text: json.delta?.type === 'text_delta' ? json.delta.text : undefined };
+      case 'message_stop':
+        return { done: true };
+      case 'error':
+        return { error: json.error?.message || 'Anthropic stream error' };
+      default:
+        return {};
+    }
+  } catch (e) {
+    console.error('Error parsing Anthropic stream:', e, 'Raw data:', data);
+    return {};
+  }
+};
+
+// --- Provider factories ---
+
+type ProviderOptions = Omit<ProviderDefinition, 'auth' | 'buildBody' | 'parseStream' | 'capabilities'> & {
+  capabilities?: Partial<ProviderCapabilities>;
+};
+
+export function createOpenAICompatProvider(
+  options: ProviderOptions,
+  auth: AuthStyle = 'bearer'
+): ProviderDefinition {
+  const capabilities = { streaming: true, systemPrompt: true, vision: false, jsonMode: false, ...options.capabilities };
+  return {
+    ...options,
+    auth,
+    capabilities,
+    buildBody: (messages, systemPrompt, { generation = {}, responseSchema, omitStreamUsage = false } = {}) => ({
+      model: options.model,
+      messages: [{ role: 'system', content: systemPrompt }, ...messages.map(({ role, content }) => ({ role, content }))],
+      stream: true,
+      // Without this OpenAI and most compatible servers never send the usage chunk
+      stream_options: omitStreamUsage ? undefined : { include_usage: true },
+      temperature: generation.temperature,
+      max_tokens: generation.maxOutputTokens,
+      top_p: generation.topP,
+      stop: generation.stopSequences?.length ? generation.stopSequences : undefined,
+      response_format: responseSchema && capabilities.jsonMode ? { type: 'json_object' } : undefined,
+    }),
+    parseStream: parseOpenAIStream,
+  };
+}
+
+export function createGeminiProvider(options: ProviderOptions): ProviderDefinition {
+  const capabilities = { streaming: true, systemPrompt: true, vision: false, jsonMode: false, ...options.capabilities };
+  return {
+    ...options,
+    auth: 'query-key',
+    capabilities,
+    buildBody: (messages, systemPrompt, { generation = {}, inlineSystemPrompt = false, responseSchema } = {}) => {
+      const contents = messages.map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [
+          { text: m.content },
+          ...(m.images || []).map(image => ({ inline_data: { mime_type: image.mimeType, data: image.data } })),
+        ],
+      }));
+      const useSystemInstruction = capabilities.systemPrompt && !inlineSystemPrompt;
+      const useJsonMode = !!responseSchema && capabilities.jsonMode;
+
+      return {
+        // Models such as Gemma reject systemInstruction, so the persona is prepended as a user/model exchange
+        contents: useSystemInstruction ? contents : [
+          { role: 'user', parts: [{ text: systemPrompt }] },
+          { role: 'model', parts: [{ text: 'Understood. I will follow this role.' }] },
+          ...contents,
+        ],
+        systemInstruction: useSystemInstruction ? { parts: [{ text: systemPrompt }] } : undefined,
+        generationConfig: {
+          temperature: generation.temperature,
+          maxOutputTokens: generation.maxOutputTokens,
+          topP: generation.topP,
+          stopSequences: generation.stopSequences?.length ? generation.stopSequences : undefined,
+          responseMimeType: useJsonMode ? 'application/json' : undefined,
+          responseSchema: useJsonMode && responseSchema ? toGeminiSchema(responseSchema) : undefined,
+        },
+      };
+    },
+    parseStream: parseGeminiStream,
+  };
+}
+
+export function createAnthropicProvider(options: ProviderOptions): ProviderDefinition {
+  return {
+    ...options,
+    auth: 'x-api-key',
+    headers: {
+      'anthropic-version': '2023-06-01',
+      // Required for calls made directly from the browser
+      'anthropic-dangerous-direct-browser-access': 'true',
+      ...options.headers,
+    },
+    capabilities: { streaming: true, systemPrompt: true, vision: false, jsonMode: false, ...options.capabilities },
+    buildBody: (messages, systemPrompt, { generation = {} } = {}) => ({
+      model: options.model,
+      max_tokens: generation.maxOutputTokens || 4096,
+      system: systemPrompt,
+      messages: mergeConsecutiveRoles(messages),
+      stream: true,
+      temperature: generation.temperature,
+      top_p: generation.topP,
+      stop_sequences: generation.stopSequences?.length ? generation.stopSequences : undefined,
+    }),
+    parseStream: parseAnthropicStream,
+  };
+}
+
+// The Messages API requires strictly alternating user/assistant turns
+function mergeConsecutiveRoles(messages: ChatMessage[]): ChatMessage[] {
+  const merged: ChatMessage[] = [];
+  for (const message of messages) {
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    const last = merged[merged.length - 1];
+    if (last && last.role === role) {
+      last.content = `${last.content}\n\n${message.content}`;
+    } else {
+      merged.push({ role, content: message.content });
+    }
+  }
+  return merged;
+}
+
+export function geminiStreamUrl(model: string): string {
+  return `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse`;
+}
+
+export const CUSTOM_PROVIDER_PREFIX = 'custom:';
+
+export function createCustomEndpointProvider(endpoint: CustomEndpoint): ProviderDefinition {
+  const baseUrl = endpoint.baseUrl.trim().replace(/\/+$/, '');
+  return createOpenAICompatProvider({
+    id: `${CUSTOM_PROVIDER_PREFIX}${endpoint.id}`,
+    name: endpoint.name || endpoint.model,
+    shortName: endpoint.name || endpoint.model,
+    icon: 'server',
+    endpoint: baseUrl.endsWith('/chat/completions') ? baseUrl : `${baseUrl}/chat/completions`,
+    model: endpoint.model,
+    apiKey: endpoint.apiKey,
+    headers: endpoint.headers,
+    keyLabel: endpoint.name || 'Custom endpoint',
+    // Self-hosted models may need to load into memory before the first token
+    timeouts: { firstTokenMs: 120000 },
+    // Local runtimes often default to a small window, so stay conservative
+    contextWindow: 8192,
+  }, endpoint.apiKey ? 'bearer' : 'none');
+}
+
+// --- Registry ---
+
+const registry = new Map<string, ProviderDefinition>();
+
+export function registerProvider(provider: ProviderDefinition): void {
+  registry.set(provider.id, provider);
+}
+
+/**
+ * Looks up a provider by id. Custom endpoints live in settings rather than
+ * the static registry, so pass settings to resolve them as well.
+ */
+export function getProvider(id: string | undefined, settings?: APISettings): ProviderDefinition | undefined {
+  if (!id) return undefined;
+  return listProviders(settings).find(p => p.id === id);
+}
+
+export function listProviders(settings?: APISettings): ProviderDefinition[] {
+  const overrides = settings?.endpointOverrides || {};
+  const builtIn = Array.from(registry.values()).map(provider =>
+    overrides[provider.id] ? { ...provider, endpoint: overrides[provider.id] } : provider
+  );
+  return [...builtIn, ...listCustomProviders(settings)];
+}
+
+function listCustomProviders(settings?: APISettings): ProviderDefinition[] {
+  return (settings?.customEndpoints || [])
+    .filter(endpoint => endpoint.baseUrl && endpoint.model)
+    .map(createCustomEndpointProvider);
+}
+
+export function getStreamTimeouts(provider: ProviderDefinition): StreamTimeouts {
+  return { ...DEFAULT_STREAM_TIMEOUTS, ...provider.timeouts };
+}
+
+export function getProviderApiKey(provider: ProviderDefinition, settings: APISettings): string {
+  return provider.apiKeyField ? settings[provider.apiKeyField] : provider.apiKey || '';
+}
+
+export function isProviderConfigured(provider: ProviderDefinition, settings: APISettings): boolean {
+  return provider.auth === 'none' || !!getProviderApiKey(provider, settings);
+}
+
+/**
+ * Parses "Header-Name: value" lines into a headers record.
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(':');
+    if (index <= 0) continue;
+    const name = line.slice(0, index).trim();
+    const value = line.slice(index + 1).trim();
+    if (name) headers[name] = value;
+  }
+  return headers;
+}
+
+export function formatHeaderLines(headers: Record<string, string>): string {
+  return Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+}
+
+// --- Built-in providers ---
+
+registerProvider(createGeminiProvider({
+  id: 'google',
+  name: 'Gemma',
+  shortName: 'Gemma',
+  icon: 'sparkles',
+  endpoint: geminiStreamUrl('gemma-3-27b-it'),
+  model: 'gemma-3-27b-it',
+  apiKeyField: 'googleApiKey',
+  keyLabel: 'Google',
+  capabilities: { systemPrompt: false, vision: true },
+  contextWindow: 128_000,
+}));
+
+registerProvider(createOpenAICompatProvider({
+  id: 'zhipu',
+  name: 'ZhipuAI',
+  shortName: 'Zhipu',
+  icon: 'brain',
+  endpoint: 'https://open.bigmodel.cn/api/paas/v4/chat/completions',
+  model: 'glm-4.5-flash',
+  apiKeyField: 'zhipuApiKey',
+  keyLabel: 'ZhipuAI',
+  capabilities: { jsonMode: true },
+  contextWindow: 128_000,
+}));
+
+registerProvider(createOpenAICompatProvider({
+  id: 'mistral-small',
+  name: 'Mistral',
+  shortName: 'Misty',
+  icon: 'cloud',
+  endpoint: 'https://api.mistral.ai/v1/chat/completions',
+  model: 'mistral-small-latest',
+  apiKeyField: 'mistralApiKey',
+  keyLabel: 'Mistral',
+  capabilities: { jsonMode: true },
+  contextWindow: 128_000,
+}));
+
+registerProvider(createOpenAICompatProvider({
+  id: 'mistral-codestral',
+  name: 'Codestral',
+  shortName: 'Cody',
+  icon: 'terminal',
+  endpoint: 'https://api.mistral.ai/v1/chat/completions',
+  model: 'codestral-latest',
+  apiKeyField: 'mistralApiKey',
+  keyLabel: 'Mistral',
+  capabilities: { jsonMode: true },
+  contextWindow: 256_000,
+}));
+
+registerProvider(createAnthropicProvider({
+  id: 'anthropic',
+  name: 'Claude',
+  shortName: 'Claude',
+  icon: 'bot',
+  endpoint: 'https://api.anthropic.com/v1/messages',
+  model: 'claude-sonnet-4-5',
+  apiKeyField: 'anthropicApiKey',
+  keyLabel: 'Anthropic',
+  contextWindow: 200_000,
+}));
@@ -0,0 +1,130 @@
+// src/services/quizGrading.ts
+import { ExamTiming, QuestionType, QuizQuestion, StudySession } from '../types';
+
+// What the student has entered for one question; which field is set depends on the type
+export interface QuizResponse {
+  choice?: number;
+  selection?: number[];
+  order?: number[];
+  text?: string;
+}
+
+export const QUESTION_TYPES: QuestionType[] = ['multiple-choice', 'true-false', 'multi-select', 'fill-blank', 'ordering', 'short-answer'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  'multiple-choice': 'Multiple choice',
+  'true-false': 'True or false',
+  'multi-select': 'Select all that apply',
+  'fill-blank': 'Fill in the blank',
+  'ordering': 'Put in order',
+  'short-answer': 'Short answer',
+};
+
+// Short answers are judged by the model against the rubric; every other type is checked here
+export function isAiGraded(question: QuizQuestion): boolean {
+  return question.type === 'short-answer';
+}
+
+export function isResponseComplete(question: QuizQuestion, response: QuizResponse): boolean {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return response.choice !== undefined;
+    case 'multi-select':
+      return (response.selection?.length ?? 0) > 0;
+    case 'ordering':
+      return response.order?.length === question.options.length;
+    case 'fill-blank':
+    case 'short-answer':
+      return !!response.text?.trim();
+  }
+}
+
+// Case, spacing, surrounding punctuation and a leading article do not matter for typed answers
+export function normalizeAnswerText(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    .replace(/^(the|a|an)\s+/, '')
+    .replace(/\s+/g, ' ');
+}
+
+function sameSet(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every(index => b.includes(index));
+}
+
+/**
+ * Copies the response onto the question and, for locally graded types, sets
+ * `isCorrect`. Short answers come back with `isCorrect` unset until graded.
+ */
+export function applyResponse(question: QuizQuestion, response: QuizResponse): QuizQuestion {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return { ...question, userAnswer: response.choice, isCorrect: response.choice === question.correctAnswer };
+    case 'multi-select': {
+      const selection = response.selection || [];
+      return { ...question, userSelection: selection, isCorrect: sameSet(selection, question.correctAnswers || []) };
+    }
+    case 'ordering': {
+      const order = response.order || [];
+      return { ...question, userOrder: order, isCorrect: order.every((optionIndex, position) => optionIndex === position) };
+    }
+    case 'fill-blank': {
+      const text = response.text?.trim() || '';
+      const accepted = (question.acceptedAnswers || []).map(normalizeAnswerText);
+      return { ...question, userText: text, isCorrect: accepted.includes(normalizeAnswerText(text)) };
+    }
+    case 'short-answer':
+      return { ...question, userText: response.text?.trim() || '', isCorrect: undefined, feedback: undefined };
+  }
+}
+
+// The finished attempt with its answered questions and score, ready to save
+export function completeSession(session: StudySession, questions: QuizQuestion[], exam?: ExamTiming): StudySession {
+  return {
+    ...session,
+    questions,
+    currentQuestionIndex: questions.length - 1,
+    score: questions.filter(question => question.isCorrect).length,
+    isCompleted: true,
+    exam: exam ?? session.exam,
+    updatedAt: new Date(),
+  };
+}
+
+// The answer in words, for feedback and the quiz history
+export function describeCorrectAnswer(question: QuizQuestion): string {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return question.options[question.correctAnswer] ?? '';
+    case 'multi-select':
+      return (question.correctAnswers || []).map(index => question.options[index]).join(', ');
+    case 'ordering':
+      return question.options.join(' → ');
+    case 'fill-blank':
+      return (question.acceptedAnswers || []).join(' / ');
+    case 'short-answer':
+      return question.rubric || '';
+  }
+}
+
+// Ordering questions start shuffled; every other type starts blank
+export function initialResponse(question: QuizQuestion | undefined): QuizResponse {
+  return question?.type === 'ordering' ? { order: shuffledOrder(question.options.length) } : {};
+}
+
+// Shuffles option indexes for an ordering question, never returning them already in order
+export function shuffledOrder(length: number): number[] {
+  const order = Array.from({ length }, (_, index) => index);
+  if (length < 2) return order;
+  do {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  } while (order.every((optionIndex, position) => optionIndex === position));
+  return order;
+}
@@ -0,0 +1,104 @@
+// src/services/quizSources.ts
+import { Conversation, Flowchart, Note, QuizOptions, QuizSource } from '../types';
+import { getActivePath, withActivePath } from '../utils/conversationTree';
+import { buildTranscript, formatTranscript } from './contextManager';
+import { QUESTION_TYPES } from './quizGrading';
+
+export const MIN_QUESTIONS = 3;
+export const MAX_QUESTIONS = 15;
+
+export const DEFAULT_QUIZ_OPTIONS: QuizOptions = {
+  questionCount: 5,
+  difficulty: 'medium',
+  questionTypes: QUESTION_TYPES,
+  focusTopics: [],
+};
+
+// Same budget as conversation transcripts, so quiz requests stay fast
+const MATERIAL_TOKEN_BUDGET = 16000;
+const MATERIAL_CHAR_LIMIT = MATERIAL_TOKEN_BUDGET * 4;
+
+// Source text for the quiz prompt, described by `label` (e.g. "conversation", "notes")
+export interface QuizMaterial {
+  title: string;
+  label: string;
+  text: string;
+  conversationId?: string;
+}
+
+interface QuizSourceData {
+  conversations: Conversation[];
+  notes: Note[];
+  flowcharts: Flowchart[];
+}
+
+function truncateMaterial(text: string): string {
+  return text.length > MATERIAL_CHAR_LIMIT ? `${text.slice(0, MATERIAL_CHAR_LIMIT)}\n[truncated]` : text;
+}
+
+function describeFlowchart(flowchart: Flowchart): string {
+  const labels = new Map(flowchart.nodes.map(node => [node.id, node.label]));
+  const nodes = flowchart.nodes.map(node => `- ${node.label}${node.description ? `: ${node.description}` : ''}`);
+  const edges = flowchart.edges
+    .filter(edge => labels.has(edge.source) && labels.has(edge.target))
+    .map(edge => `- ${labels.get(edge.source)} → ${labels.get(edge.target)}${edge.label ? ` (${edge.label})` : ''}`);
+  return [
+    `Flowchart: ${flowchart.title}`,
+    flowchart.description || '',
+    `Steps and concepts:\n${nodes.join('\n')}`,
+    edges.length > 0 ? `Connections:\n${edges.join('\n')}` : '',
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Turns the builder's chosen source into prompt text. Throws with a message
+ * for the user when the source is missing or too thin to quiz on.
+ */
+export function resolveQuizSource(source: QuizSource, data: QuizSourceData): QuizMaterial {
+  switch (source.kind) {
+    case 'conversation':
+    case 'messages': {
+      const conversation = data.conversations.find(c => c.id === source.conversationId);
+      if (!conversation) throw new Error('That conversation no longer exists.');
+      if (source.kind === 'conversation') {
+        if (getActivePath(conversation).length < 2) {
+          throw new Error('Conversation must have at least 2 messages to generate a quiz.');
+        }
+        return {
+          title: conversation.title,
+          label: 'conversation',
+          text: buildTranscript(withActivePath(conversation), MATERIAL_TOKEN_BUDGET),
+          conversationId: conversation.id,
+        };
+      }
+      const selected = getActivePath(conversation).filter(message => source.messageIds.includes(message.id));
+      if (selected.length === 0) throw new Error('Select at least one message to quiz on.');
+      return {
+        title: conversation.title,
+        label: 'excerpt from a conversation',
+        text: truncateMaterial(formatTranscript(selected)),
+        conversationId: conversation.id,
+      };
+    }
+
+    case 'notes': {
+      const notes = data.notes.filter(note => source.noteIds.includes(note.id) && note.content.trim());
+      if (notes.length === 0) throw new Error('Select at least one note with some content.');
+      return {
+        title: notes.length === 1 ? notes[0].title : `${notes.length} notes`,
+        label: 'notes',
+        text: truncateMaterial(notes.map(note => `# ${note.title}\n\n${note.content}`).join('\n\n')),
+      };
+    }
+
+    case 'flowchart': {
+      const flowchart = data.flowcharts.find(f => f.id === source.flowchartId);
+      if (!flowchart || flowchart.nodes.length === 0) throw new Error('Pick a flowchart with at least one node.');
+      return {
+        title: flowchart.title,
+        label: 'flowchart',
+        text: truncateMaterial(describeFlowchart(flowchart)),
+      };
+    }
+  }
+}
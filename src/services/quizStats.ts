@@ -0,0 +1,66 @@
+// src/services/quizStats.ts
+import { QuizQuestion, StudySession } from '../types';
+
+export interface ConceptStats {
+  concept: string;
+  answered: number;
+  missed: number;
+  lastMissedAt?: Date;
+  missedQuestions: QuizQuestion[]; // most recent first
+}
+
+export interface QuizSummary {
+  attempts: number;
+  averagePercent: number;
+  bestPercent: number;
+  concepts: ConceptStats[]; // most missed first
+}
+
+// A concept missed at least this often is flagged as one to review
+export const REPEATED_MISS_THRESHOLD = 2;
+
+export function scorePercent(session: Pick<StudySession, 'score' | 'totalQuestions'>): number {
+  return session.totalQuestions > 0 ? Math.round((session.score / session.totalQuestions) * 100) : 0;
+}
+
+// Questions from quizzes made before concepts were recorded fall back to their own text
+function conceptOf(question: QuizQuestion): string {
+  return (question.concept || question.question).trim();
+}
+
+/**
+ * Totals over finished quizzes, with each concept's answers grouped across
+ * quizzes (case-insensitively) so repeated mistakes stand out.
+ */
+export function summarizeQuizHistory(sessions: StudySession[]): QuizSummary {
+  const finished = sessions
+    .filter(session => session.isCompleted)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  const byConcept = new Map<string, ConceptStats>();
+
+  for (const session of finished) {
+    for (const question of session.questions) {
+      if (question.isCorrect === undefined) continue;
+      const concept = conceptOf(question);
+      const key = concept.toLowerCase();
+      const stats = byConcept.get(key) || { concept, answered: 0, missed: 0, missedQuestions: [] };
+      stats.answered++;
+      if (!question.isCorrect) {
+        stats.missed++;
+        stats.lastMissedAt = stats.lastMissedAt || session.updatedAt;
+        stats.missedQuestions.push(question);
+      }
+      byConcept.set(key, stats);
+    }
+  }
+
+  const percents = finished.map(scorePercent);
+  return {
+    attempts: finished.length,
+    averagePercent: percents.length > 0 ? Math.round(percents.reduce((sum, p) => sum + p, 0) / percents.length) : 0,
+    bestPercent: percents.length > 0 ? Math.max(...percents) : 0,
+    concepts: Array.from(byConcept.values()).sort(
+      (a, b) => b.missed - a.missed || b.missed / b.answered - a.missed / a.answered
+    ),
+  };
+}
@@ -0,0 +1,132 @@
+// src/services/resilience.ts
+
+export type ProviderErrorKind = 'rate_limit' | 'server' | 'timeout' | 'auth' | 'network' | 'bad_request' | 'stalled' | 'cancelled';
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ProviderErrorKind,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  get isTransient(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'timeout' || this.kind === 'network';
+  }
+}
+
+export function classifyStatus(status: number): ProviderErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408) return 'timeout';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  return 'bad_request';
+}
+
+/**
+ * Parses a Retry-After header given either as seconds or as an HTTP date.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function cancelledError(): ProviderError {
+  return new ProviderError('Request cancelled', 'cancelled');
+}
+
+export interface RequestSignal {
+  signal: AbortSignal;
+  didTimeOut: () => boolean;
+  // Restarts the timer with a new limit, used as a watchdog between stream chunks
+  restart: (timeoutMs: number) => void;
+  clearTimeout: () => void;
+  dispose: () => void;
+}
+
+/**
+ * Combines an optional caller signal with a per-request timeout. Once the
+ * combined signal fires, `didTimeOut` tells a timeout apart from a cancel.
+ */
+export function createRequestSignal(timeoutMs: number, external?: AbortSignal): RequestSignal {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  const startTimer = (ms: number) => setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, ms);
+  let timeoutId = startTimer(timeoutMs);
+
+  if (external?.aborted) {
+    controller.abort();
+  } else {
+    external?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    didTimeOut: () => timedOut,
+    restart: (ms: number) => {
+      clearTimeout(timeoutId);
+      if (!controller.signal.aborted) timeoutId = startTimer(ms);
+    },
+    clearTimeout: () => clearTimeout(timeoutId),
+    dispose: () => {
+      clearTimeout(timeoutId);
+      external?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Wraps fetch/stream failures that are not HTTP errors (offline, DNS, CORS)
+ * so callers can treat everything as a ProviderError.
+ */
+export function toProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error;
+  if (error instanceof TypeError) {
+    return new ProviderError(`Network error: ${error.message}`, 'network');
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ProviderError(message, 'bad_request');
+}
+
+// Full-jitter exponential backoff, capped so a stuck provider fails over quickly
+export function backoffDelay(attempt: number, baseMs: number = 1000, maxMs: number = 15000): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+export function retryDelay(error: ProviderError, attempt: number): number {
+  return error.retryAfterMs !== undefined ? Math.min(error.retryAfterMs, 60000) : backoffDelay(attempt);
+}
+
+// Rejects with a cancelled ProviderError as soon as the signal fires
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(cancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
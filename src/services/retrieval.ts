@@ -0,0 +1,123 @@
+// src/services/retrieval.ts
+// Keyword search over the document library. Documents are cut into
+// overlapping word windows and ranked with BM25, entirely in the browser.
+// The index itself is generic and also backs the global search (search.ts).
+
+import { Citation } from '../types';
+
+const CHUNK_WORDS = 180;
+const CHUNK_OVERLAP = 30;
+// BM25 term-frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+// Follow-ups such as "why?" carry too few terms to search on their own
+const MIN_QUERY_TERMS = 3;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'so', 'that',
+  'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+export interface SearchIndex<T> {
+  items: T[];
+  termCounts: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+}
+
+export interface SearchOptions<T> {
+  // Let each query term also match longer terms that start with it, for search-as-you-type
+  prefix?: boolean;
+  filter?: (item: T) => boolean;
+}
+
+// Lowercased words without stopwords; a trailing plural "s" is dropped so "cells" matches "cell"
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+export function chunkText(text: string): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const chunks: string[] = [];
+  for (let start = 0; start < words.length; start += CHUNK_WORDS - CHUNK_OVERLAP) {
+    chunks.push(words.slice(start, start + CHUNK_WORDS).join(' '));
+    if (start + CHUNK_WORDS >= words.length) break;
+  }
+  return chunks;
+}
+
+export function buildIndex<T extends { text: string }>(items: T[]): SearchIndex<T> {
+  const documentFrequency = new Map<string, number>();
+  const termCounts = items.map(item => {
+    const counts = new Map<string, number>();
+    tokenize(item.text).forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    return counts;
+  });
+  const lengths = termCounts.map(counts => Array.from(counts.values()).reduce((sum, count) => sum + count, 0));
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / (lengths.length || 1);
+  return { items, termCounts, lengths, documentFrequency, averageLength: averageLength || 1 };
+}
+
+export function searchIndex<T>(
+  index: SearchIndex<T>,
+  query: string,
+  limit: number,
+  { prefix = false, filter }: SearchOptions<T> = {}
+): SearchHit<T>[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const total = index.items.length;
+  if (queryTerms.length === 0 || total === 0) return [];
+
+  const vocabulary = prefix ? Array.from(index.documentFrequency.keys()) : [];
+  const terms = prefix
+    ? Array.from(new Set(queryTerms.flatMap(term => vocabulary.filter(known => known.startsWith(term)))))
+    : queryTerms;
+
+  const hits: SearchHit<T>[] = [];
+  index.termCounts.forEach((counts, i) => {
+    if (filter && !filter(index.items[i])) return;
+    let score = 0;
+    for (const term of terms) {
+      const count = counts.get(term);
+      if (!count) continue;
+      const frequency = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5));
+      const norm = K1 * (1 - B + (B * index.lengths[i]) / index.averageLength);
+      score += (idf * count * (K1 + 1)) / (count + norm);
+    }
+    if (score > 0) hits.push({ item: index.items[i], score });
+  });
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * The text to search the library with: the latest student message, plus the
+ * one before it when the latest is too short to stand on its own.
+ */
+export function buildRetrievalQuery(messages: { role: string; content: string }[]): string {
+  const questions = messages.filter(m => m.role === 'user').map(m => m.content);
+  const latest = questions[questions.length - 1] || '';
+  if (tokenize(latest).length >= MIN_QUERY_TERMS || questions.length < 2) return latest;
+  return `${questions[questions.length - 2]}\n${latest}`;
+}
+
+// Passages ride along in the system prompt, numbered to match the citations shown under the reply
+export function withSources(systemPrompt: string, passages: Citation[]): string {
+  if (passages.length === 0) return systemPrompt;
+  const sources = passages.map((p, i) => `[${i + 1}] From "${p.documentName}":\n${p.text}`).join('\n\n');
+  return `${systemPrompt}\n\nExcerpts from the student's own documents that may help with this question:\n${sources}\n\nWhen you use an excerpt, cite it inline by its number, like [1]. If the excerpts do not cover the question, say so and answer from general knowledge.`;
+}
@@ -0,0 +1,172 @@
+// src/services/search.ts
+// Global search over every message (all branches), note and flowchart node,
+// ranked with the same BM25 index as the document library.
+
+import { Conversation, Flowchart, Note, TutorMode } from '../types';
+import { buildIndex, searchIndex, SearchIndex, tokenize } from './retrieval';
+
+export type SearchKind = 'chat' | 'note' | 'flowchart';
+
+export interface SearchDocument {
+  key: string;
+  kind: SearchKind;
+  title: string; // conversation, note or flowchart title
+  text: string;
+  date: Date;
+  model?: string; // provider id, assistant messages only
+  tutorMode?: TutorMode; // assistant messages only
+  conversationId?: string;
+  messageId?: string; // unset for a conversation's title
+  noteId?: string;
+  flowchartId?: string;
+}
+
+export interface SearchFilters {
+  kind?: SearchKind;
+  since?: Date;
+  model?: string;
+  tutorMode?: TutorMode;
+}
+
+export interface HighlightedSnippet {
+  text: string;
+  highlights: [number, number][]; // [start, end) ranges within `text`
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: HighlightedSnippet;
+}
+
+const MAX_RESULTS = 50;
+const SNIPPET_BEFORE = 50;
+const SNIPPET_LENGTH = 160;
+
+// Drops the Markdown syntax that would otherwise clutter snippets
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[\w-]*\n?/g, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`#>]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function buildSearchIndex(
+  conversations: Conversation[],
+  notes: Note[],
+  flowcharts: Flowchart[]
+): SearchIndex<SearchDocument> {
+  const documents: SearchDocument[] = [];
+
+  for (const conversation of conversations) {
+    documents.push({
+      key: `conversation:${conversation.id}`,
+      kind: 'chat',
+      title: conversation.title,
+      text: conversation.title,
+      date: new Date(conversation.updatedAt),
+      conversationId: conversation.id,
+    });
+    for (const message of conversation.messages) {
+      const attachmentNames = (message.attachments || []).map(a => a.name).join(' ');
+      documents.push({
+        key: `message:${message.id}`,
+        kind: 'chat',
+        title: conversation.title,
+        text: toPlainText(`${message.content} ${attachmentNames}`),
+        date: new Date(message.timestamp),
+        model: message.role === 'assistant' ? message.model : undefined,
+        tutorMode: message.role === 'assistant' ? message.tutorMode : undefined,
+        conversationId: conversation.id,
+        messageId: message.id,
+      });
+    }
+  }
+
+  for (const note of notes) {
+    documents.push({
+      key: `note:${note.id}`,
+      kind: 'note',
+      title: note.title,
+      text: toPlainText(`${note.title}\n${note.content}`),
+      date: new Date(note.updatedAt),
+      noteId: note.id,
+    });
+  }
+
+  for (const flowchart of flowcharts) {
+    documents.push({
+      key: `flowchart:${flowchart.id}`,
+      kind: 'flowchart',
+      title: flowchart.title,
+      text: [flowchart.title, flowchart.description].filter(Boolean).join('\n'),
+      date: new Date(flowchart.updatedAt),
+      flowchartId: flowchart.id,
+    });
+    for (const node of flowchart.nodes) {
+      documents.push({
+        key: `node:${flowchart.id}:${node.id}`,
+        kind: 'flowchart',
+        title: flowchart.title,
+        text: [node.label, node.description].filter(Boolean).join(' — '),
+        date: new Date(flowchart.updatedAt),
+        flowchartId: flowchart.id,
+      });
+    }
+  }
+
+  return buildIndex(documents.filter(d => d.text));
+}
+
+function matchesFilters(document: SearchDocument, filters: SearchFilters): boolean {
+  if (filters.kind && document.kind !== filters.kind) return false;
+  if (filters.since && document.date < filters.since) return false;
+  if (filters.model && document.model !== filters.model) return false;
+  if (filters.tutorMode && document.tutorMode !== filters.tutorMode) return false;
+  return true;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Cuts a window of `text` around the first match and marks every word that
+ * starts with a query term, the same prefix rule the ranking uses.
+ */
+export function createSnippet(text: string, query: string): HighlightedSnippet {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return { text: text.slice(0, SNIPPET_LENGTH), highlights: [] };
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+  const first = pattern.exec(text);
+  let start = first ? Math.max(0, first.index - SNIPPET_BEFORE) : 0;
+  // Start on a word boundary
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < (first?.index ?? start)) start = space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const window = `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+
+  const highlights: [number, number][] = [];
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(window); match; match = pattern.exec(window)) {
+    highlights.push([match.index, match.index + match[0].length]);
+  }
+  return { text: window, highlights };
+}
+
+export function search(
+  index: SearchIndex<SearchDocument>,
+  query: string,
+  filters: SearchFilters = {}
+): SearchResult[] {
+  return searchIndex(index, query, MAX_RESULTS, {
+    prefix: true,
+    filter: document => matchesFilters(document, filters),
+  }).map(({ item, score }) => ({ document: item, score, snippet: createSnippet(item.text, query) }));
+}
@@ -0,0 +1,104 @@
+// src/services/spacedRepetition.ts
+import { Flashcard, FlashcardDeck, ReviewRating } from '../types';
+import { generateId } from '../utils/helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A forgotten card comes back in the same session, after a short break
+const RELEARN_DELAY_MS = 10 * MINUTE_MS;
+const HARD_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+export const REVIEW_RATINGS: ReviewRating[] = ['again', 'hard', 'good', 'easy'];
+
+export function createCard(front: string, back: string, now = new Date()): Flashcard {
+  return {
+    id: generateId(),
+    front,
+    back,
+    due: now,
+    interval: 0,
+    ease: INITIAL_EASE,
+    repetitions: 0,
+    lapses: 0,
+  };
+}
+
+export function isDue(card: Flashcard, now = new Date()): boolean {
+  return card.due.getTime() <= now.getTime();
+}
+
+/**
+ * SM-2 with four answer buttons: "again" resets the card, "hard" grows the
+ * interval a little and lowers the ease, "good" follows the classic 1 day,
+ * 6 days, then interval × ease progression, and "easy" adds a bonus on top.
+ */
+export function scheduleReview(card: Flashcard, rating: ReviewRating, now = new Date()): Flashcard {
+  const reviewed = { ...card, lastReviewedAt: now };
+
+  if (rating === 'again') {
+    return {
+      ...reviewed,
+      due: new Date(now.getTime() + RELEARN_DELAY_MS),
+      interval: 0,
+      ease: Math.max(MIN_EASE, card.ease - 0.2),
+      repetitions: 0,
+      lapses: card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+    };
+  }
+
+  let interval: number;
+  let ease = card.ease;
+  if (rating === 'hard') {
+    interval = Math.max(1, Math.round(card.interval * HARD_MULTIPLIER));
+    ease = Math.max(MIN_EASE, ease - 0.15);
+  } else {
+    if (card.repetitions === 0) interval = 1;
+    else if (card.repetitions === 1) interval = 6;
+    else interval = Math.round(card.interval * card.ease);
+    if (rating === 'easy') {
+      interval = card.repetitions === 0 ? 4 : Math.round(interval * EASY_BONUS);
+      ease += 0.15;
+    }
+  }
+
+  return {
+    ...reviewed,
+    due: new Date(now.getTime() + interval * DAY_MS),
+    interval,
+    ease,
+    repetitions: card.repetitions + 1,
+  };
+}
+
+// Short label for how long a rating would push the card back, e.g. "10m" or "6d"
+export function formatNextInterval(card: Flashcard, rating: ReviewRating, now = new Date()): string {
+  const delay = scheduleReview(card, rating, now).due.getTime() - now.getTime();
+  if (delay < DAY_MS) return `${Math.round(delay / MINUTE_MS)}m`;
+  const days = Math.round(delay / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+export interface DueCard {
+  deckId: string;
+  deckTitle: string;
+  card: Flashcard;
+}
+
+// Cards due now across the given decks, oldest due first
+export function getDueCards(decks: FlashcardDeck[], now = new Date()): DueCard[] {
+  return decks
+    .flatMap(deck => deck.cards
+      .filter(card => isDue(card, now))
+      .map(card => ({ deckId: deck.id, deckTitle: deck.title, card })))
+    .sort((a, b) => a.card.due.getTime() - b.card.due.getTime());
+}
+
+export function countDue(deck: FlashcardDeck, now = new Date()): number {
+  return deck.cards.filter(card => isDue(card, now)).length;
+}
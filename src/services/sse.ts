@@ -0,0 +1,64 @@
+// src/services/sse.ts
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Reads a text/event-stream body and yields one event per blank-line
+ * separated block. Multi-line `data:` fields are joined with newlines.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  const flush = (): ServerSentEvent | null => {
+    if (dataLines.length === 0) {
+      eventName = undefined;
+      return null;
+    }
+    const event = { event: eventName, data: dataLines.join('\n') };
+    eventName = undefined;
+    dataLines = [];
+    return event;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+        if (line === '') {
+          const event = flush();
+          if (event) yield event;
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        } else if (line.startsWith('event:')) {
+          eventName = line.slice(6).trim();
+        }
+        // Comments (":") and other fields (id, retry) are ignored
+      }
+    }
+
+    if (buffer.startsWith('data:')) {
+      dataLines.push(buffer.slice(5).replace(/^ /, ''));
+    }
+    const trailing = flush();
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,158 @@
+// src/services/structuredOutput.ts
+
+/**
+ * Minimal JSON schema subset shared by request-side structured output
+ * (Gemini responseSchema) and local validation of the parsed result.
+ */
+export type JsonSchema =
+  | { type: 'string'; enum?: string[]; description?: string }
+  | { type: 'number' | 'integer' | 'boolean'; description?: string }
+  | { type: 'array'; items: JsonSchema; minItems?: number; maxItems?: number; description?: string }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[]; description?: string };
+
+export type StructuredResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public readonly errors: string[], public readonly rawResponse: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Returns a list of human-readable validation errors, empty when valid.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of: ${schema.enum.join(', ')}`];
+      }
+      return [];
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} must be an integer`];
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must contain at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must contain at most ${schema.maxItems} items`);
+      }
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+      });
+      return errors;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] !== undefined && record[key] !== null) {
+          errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+  }
+}
+
+/**
+ * Pulls the JSON payload out of a model response that may be wrapped in
+ * markdown fences or surrounded by prose.
+ */
+export function extractJson(text: string): string {
+  let cleanText = text.trim().replace(/```json\s*/gi, '').replace(/```\s*/g, '');
+
+  const firstBrace = cleanText.search(/[{[]/);
+  const closing = cleanText[firstBrace] === '[' ? ']' : '}';
+  const lastBrace = cleanText.lastIndexOf(closing);
+
+  if (firstBrace !== -1 && lastBrace > firstBrace) {
+    cleanText = cleanText.substring(firstBrace, lastBrace + 1);
+  }
+  return cleanText;
+}
+
+/**
+ * Parses and validates a raw model response. `refine` adds semantic checks
+ * the schema cannot express (e.g. an answer that must appear in its options).
+ */
+export function parseStructured<T>(
+  text: string,
+  schema: JsonSchema,
+  refine?: (value: T) => string[]
+): StructuredResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(text));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    return { ok: false, errors: [`Response is not valid JSON (${reason})`] };
+  }
+
+  const errors = validateAgainstSchema(parsed, schema);
+  if (errors.length > 0) return { ok: false, errors };
+
+  const semanticErrors = refine ? refine(parsed as T) : [];
+  if (semanticErrors.length > 0) return { ok: false, errors: semanticErrors };
+
+  return { ok: true, value: parsed as T };
+}
+
+/**
+ * Converts a schema to the Gemini responseSchema format (upper-case types,
+ * no length constraints).
+ */
+export function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const base: Record<string, unknown> = { type: schema.type.toUpperCase() };
+  if (schema.description) base.description = schema.description;
+
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? { ...base, enum: schema.enum } : base;
+    case 'array':
+      return { ...base, items: toGeminiSchema(schema.items) };
+    case 'object':
+      return {
+        ...base,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+        required: schema.required,
+      };
+    default:
+      return base;
+  }
+}
+
+/**
+ * Builds the follow-up prompt sent when a response fails validation.
+ */
+export function createRepairPrompt(errors: string[]): string {
+  return `Your previous response did not match the required JSON format. Fix these problems:
+${errors.slice(0, 10).map(error => `- ${error}`).join('\n')}
+
+Return ONLY the corrected JSON object, with no markdown and no extra text.`;
+}
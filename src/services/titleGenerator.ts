@@ -1,12 +1,15 @@
 // src/services/titleGenerator.ts
 import { APISettings } from '../types';
+import { CUSTOM_PROVIDER_PREFIX } from './providers';
+import { createRequestSignal } from './resilience';
 
 /**
  * Generates a concise, descriptive title for a conversation using AI
  */
 export async function generateConversationTitleAI(
   firstMessage: string,
-  settings: APISettings
+  settings: APISettings,
+  signal?: AbortSignal
 ): Promise<string> {
   // Fallback to simple extraction if no API key
   if (!settings.googleApiKey && !settings.zhipuApiKey && !settings.mistralApiKey) {
@@ -26,6 +29,9 @@ Requirements:
 
 Return ONLY the title, nothing else.`;
 
+  // Titles are cosmetic, so give up quickly and fall back to the simple title
+  const request = createRequestSignal(15000, signal);
+
   try {
     // Use Google Gemini for fastest response
     if (settings.googleApiKey) {
@@ -37,6 +43,7 @@ Return ONLY the title, nothing else.`;
           body: JSON.stringify({
             contents: [{ role: 'user', parts: [{ text: prompt }] }],
           }),
+          signal: request.signal,
         }
       );
 
@@ -51,6 +58,8 @@ Return ONLY the title, nothing else.`;
     }
   } catch (error) {
     console.error('Error generating AI title:', error);
+  } finally {
+    request.dispose();
   }
 
   // Fallback to simple extraction
@@ -99,19 +108,25 @@ function generateConversationTitleSimple(firstMessage: string): string {
 /**
  * Generate title with optional AI enhancement
  * This is async but returns immediately with a simple title,
- * then updates with AI title if available
+ * then updates with AI title if available. `onSettled` runs once
+ * the background request (if any) has finished either way.
  */
 export async function generateSmartTitle(
   firstMessage: string,
   settings: APISettings,
-  onTitleGenerated?: (title: string) => void
+  onTitleGenerated?: (title: string) => void,
+  signal?: AbortSignal,
+  onSettled?: () => void
 ): Promise<string> {
   // Return simple title immediately
   const simpleTitle = generateConversationTitleSimple(firstMessage);
   
+  // Keep chats on a self-hosted endpoint off third-party title generation
+  const usesCustomEndpoint = settings.selectedModel.startsWith(CUSTOM_PROVIDER_PREFIX);
+
   // Try to generate AI title in background
-  if (settings.googleApiKey || settings.zhipuApiKey || settings.mistralApiKey) {
-    generateConversationTitleAI(firstMessage, settings)
+  if (!usesCustomEndpoint && (settings.googleApiKey || settings.zhipuApiKey || settings.mistralApiKey)) {
+    generateConversationTitleAI(firstMessage, settings, signal)
       .then(aiTitle => {
         if (onTitleGenerated && aiTitle !== simpleTitle) {
           onTitleGenerated(aiTitle);
@@ -119,7 +134,10 @@ export async function generateSmartTitle(
       })
       .catch(err => {
         console.error('Background title generation failed:', err);
-      });
+      })
+      .finally(() => onSettled?.());
+  } else {
+    onSettled?.();
   }
   
   return simpleTitle;
@@ -0,0 +1,90 @@
+// src/services/tokenUsage.ts
+import { Conversation, Message, ModelPrice, TokenUsage } from '../types';
+
+// List prices in USD per million tokens; users can override them in Settings
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  google: { input: 0, output: 0 },
+  zhipu: { input: 0, output: 0 },
+  'mistral-small': { input: 0.1, output: 0.3 },
+  'mistral-codestral': { input: 0.3, output: 0.9 },
+  anthropic: { input: 3, output: 15 },
+};
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  estimated: boolean;
+}
+
+const emptyTotals = (): UsageTotals => ({ promptTokens: 0, completionTokens: 0, cost: 0, estimated: false });
+
+/**
+ * Rough token count for text when a provider does not report usage
+ * (about four characters per token for English prose).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function getModelPrice(model: string | undefined, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (!model) return undefined;
+  return prices[model] || DEFAULT_PRICES[model];
+}
+
+export function estimateCost(usage: TokenUsage, price: ModelPrice | undefined): number {
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+function addMessage(totals: UsageTotals, message: Message, prices: Record<string, ModelPrice>): UsageTotals {
+  if (!message.usage) return totals;
+  return {
+    promptTokens: totals.promptTokens + message.usage.promptTokens,
+    completionTokens: totals.completionTokens + message.usage.completionTokens,
+    cost: totals.cost + estimateCost(message.usage, getModelPrice(message.model, prices)),
+    estimated: totals.estimated || !!message.usage.estimated,
+  };
+}
+
+export function summarizeConversationUsage(
+  conversation: Conversation,
+  prices: Record<string, ModelPrice>
+): UsageTotals {
+  return conversation.messages.reduce((totals, message) => addMessage(totals, message, prices), emptyTotals());
+}
+
+/**
+ * Totals for replies received in the given calendar month, grouped by model id.
+ */
+export function summarizeMonthlyUsage(
+  conversations: Conversation[],
+  prices: Record<string, ModelPrice>,
+  month: Date = new Date()
+): Record<string, UsageTotals> {
+  const byModel: Record<string, UsageTotals> = {};
+  for (const conversation of conversations) {
+    for (const message of conversation.messages) {
+      const timestamp = new Date(message.timestamp);
+      if (
+        !message.usage ||
+        timestamp.getFullYear() !== month.getFullYear() ||
+        timestamp.getMonth() !== month.getMonth()
+      ) continue;
+      const model = message.model || 'unknown';
+      byModel[model] = addMessage(byModel[model] || emptyTotals(), message, prices);
+    }
+  }
+  return byModel;
+}
+
+export function formatTokenCount(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(1)}k`;
+  return `${(count / 1_000_000).toFixed(2)}M`;
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? `<$0.01` : `$${cost.toFixed(2)}`;
+}
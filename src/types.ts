@@ -3,10 +3,18 @@ export type TutorMode = 'standard' | 'exam' | 'mentor' | 'creative';
 export interface Conversation {
   id: string;
   title: string;
-  messages: Message[];
+  messages: Message[]; // every message of every branch; see utils/conversationTree
+  activeLeafId?: string; // last message of the branch being viewed
   createdAt: Date;
   updatedAt: Date;
   isPinned?: boolean;
+  summary?: ConversationSummary; // running summary of turns that no longer fit the model's context window
+}
+
+export interface ConversationSummary {
+  text: string;
+  upToMessageId: string; // last message folded into the summary
+  updatedAt: Date;
 }
 
 export interface Message {
@@ -14,10 +22,69 @@ export interface Message {
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
-  model?: 'google' | 'zhipu' | 'mistral-small' | 'mistral-codestral';
+  parentId?: string; // previous message on this branch; unset for the first message
+  model?: string; // id of the provider that produced the reply
+  tutorMode?: TutorMode; // mode the reply was written in
+  stalled?: boolean; // the stream went silent before the reply finished
+  usage?: TokenUsage;
+  attachments?: Attachment[];
+  citations?: Citation[]; // library passages the reply was grounded in; [n] in the text is citations[n - 1]
   isEditing?: boolean;
 }
 
+// A file sent with a message. The file itself lives in the attachments store under `id`.
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // bytes of the stored file
+  thumbnail?: string; // small JPEG data URL, images only
+  text?: string; // text extracted from a PDF, sent to every model
+}
+
+// A file in the document library, split into passages for retrieval
+export interface LibraryDocument {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  addedAt: Date;
+  chunks: string[];
+}
+
+// A library passage given to the model alongside a question
+export interface Citation {
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  text: string;
+}
+
+// Answers from several models to one question, shown side by side until one is kept
+export interface Comparison {
+  conversationId: string;
+  parentId: string; // the question every model answers
+  answers: ComparisonAnswer[];
+}
+
+export interface ComparisonAnswer {
+  message: Message; // filled in as it streams; `model` is the provider id
+  status: 'streaming' | 'done' | 'failed';
+  error?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean; // true when the provider did not report usage and counts were approximated
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
 export interface Note {
   id: string;
   title: string;
@@ -27,35 +94,138 @@ export interface Note {
   sourceConversationId?: string;
 }
 
+export type ApiKeyField = 'googleApiKey' | 'zhipuApiKey' | 'mistralApiKey' | 'anthropicApiKey';
+
+// User-defined OpenAI-compatible server (llama.cpp, Ollama, vLLM, ...)
+export interface CustomEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  headers: Record<string, string>;
+}
+
+// Sampling options sent with every chat request; unset fields use the provider default
+export interface GenerationSettings {
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  stopSequences?: string[];
+}
+
 export interface APISettings {
   googleApiKey: string;
   zhipuApiKey: string;
   mistralApiKey: string;
-  selectedModel: 'google' | 'zhipu' | 'mistral-small' | 'mistral-codestral';
+  anthropicApiKey: string;
+  selectedModel: string; // id of a provider in the provider registry
   selectedTutorMode: TutorMode;
+  customEndpoints: CustomEndpoint[];
+  endpointOverrides: Record<string, string>; // provider id -> URL, e.g. a local mock server
+  generation: GenerationSettings;
+  maxRetries: number; // retries for transient errors before giving up or failing over
+  enableFailover: boolean;
+  prices: Record<string, ModelPrice>; // user overrides of the built-in price table, by provider id
+  autoLockMinutes: number; // inactivity before the API key vault locks again, 0 = never
+  useLibrary: boolean; // ground chat answers in the document library
 }
 
+// A quiz attempt. Completed attempts are stored with the answers given, for the quiz history.
 export interface StudySession {
   id: string;
-  conversationId: string;
+  conversationId?: string; // set when the quiz was made from a conversation or some of its messages
+  title: string; // the source's title, kept in case the source is deleted
   questions: QuizQuestion[];
   currentQuestionIndex: number;
   score: number;
   totalQuestions: number;
   isCompleted: boolean;
+  exam?: ExamTiming; // set when the quiz is taken as a timed exam
   createdAt: Date;
+  updatedAt: Date; // when the attempt was finished
+}
+
+export interface ExamTiming {
+  timeLimitSeconds: number;
+  elapsedSeconds?: number; // set when the exam is submitted
+  timedOut?: boolean; // submitted automatically when time ran out
+}
+
+export type QuestionType =
+  | 'multiple-choice'
+  | 'true-false'
+  | 'multi-select'
+  | 'fill-blank'
+  | 'ordering'
+  | 'short-answer';
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+// What a quiz is generated from
+export type QuizSource =
+  | { kind: 'conversation'; conversationId: string }
+  | { kind: 'messages'; conversationId: string; messageIds: string[] }
+  | { kind: 'notes'; noteIds: string[] }
+  | { kind: 'flowchart'; flowchartId: string };
+
+// Choices from the quiz builder
+export interface QuizOptions {
+  questionCount: number;
+  difficulty: QuizDifficulty;
+  questionTypes: QuestionType[]; // at least one
+  focusTopics: string[]; // empty to cover the whole source
+  timeLimitMinutes?: number; // set to take the quiz as a timed exam
 }
 
+// Which fields are used depends on `type`; see services/quizGrading
 export interface QuizQuestion {
   id: string;
-  question: string;
-  options: string[];
-  correctAnswer: number;
+  type: QuestionType;
+  question: string; // fill-blank questions mark the gap with ___
+  options: string[]; // choices; for ordering, the items in their correct order; empty for typed answers
+  correctAnswer: number; // index into options for multiple-choice and true-false, -1 otherwise
+  correctAnswers?: number[]; // multi-select: indexes of every correct option
+  acceptedAnswers?: string[]; // fill-blank: answers that count as correct
+  rubric?: string; // short-answer: what a full answer must cover, used by the AI grader
   explanation: string;
-  userAnswer?: number;
+  concept?: string; // short name of what the question tests, used to group results across quizzes
+  userAnswer?: number; // index into options
+  userSelection?: number[]; // multi-select
+  userOrder?: number[]; // ordering: indexes into options in the order given
+  userText?: string; // fill-blank and short-answer
+  feedback?: string; // short-answer: the grader's comment
   isCorrect?: boolean;
+  flagged?: boolean; // exam: marked for review
+  timeSpentSeconds?: number; // exam: time spent on the question
 }
 
+// A deck of flashcards generated from a conversation or a note
+export interface FlashcardDeck {
+  id: string;
+  title: string;
+  cards: Flashcard[];
+  sourceConversationId?: string;
+  sourceNoteId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Scheduling fields follow SM-2; see services/spacedRepetition
+export interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+  due: Date; // new cards are due as soon as they are created
+  interval: number; // days until the next review after a successful one
+  ease: number; // interval multiplier, starts at 2.5
+  repetitions: number; // successful reviews in a row
+  lapses: number; // times the card was forgotten after being learned
+  lastReviewedAt?: Date;
+}
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
 // Flowchart types
 export type NodeType = 'start' | 'process' | 'decision' | 'end' | 'topic' | 'concept';
 
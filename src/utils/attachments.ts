@@ -0,0 +1,240 @@
+// src/utils/attachments.ts
+// Images and PDFs sent with messages. The files are kept as blobs in the
+// attachments store; a message carries only their metadata, a thumbnail and
+// any text pulled out of a PDF.
+
+import { Attachment, Conversation, Message } from '../types';
+import { deleteBlobs, getBlob, isIndexedDBAvailable, putBlob } from './db';
+import { generateId } from './helpers';
+
+export const MAX_ATTACHMENTS = 5;
+export const ATTACHMENT_ACCEPT = 'image/png,image/jpeg,image/webp,image/gif,application/pdf';
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+// Photos are scaled down before storing; this is still plenty to read a worksheet
+const MAX_IMAGE_SIDE = 2048;
+const THUMBNAIL_SIDE = 160;
+// Keeps one long PDF from crowding everything else out of the context window
+const MAX_PDF_TEXT_CHARS = 60_000;
+
+// Used when IndexedDB is unavailable; attachments then last until the page reloads
+const memoryBlobs = new Map<string, Blob>();
+
+export function isAttachmentFile(file: File): boolean {
+  return file.type.startsWith('image/') || file.type === 'application/pdf';
+}
+
+export function isImageAttachment(attachment: Pick<Attachment, 'mimeType'>): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+/**
+ * Stores a file and describes it as an attachment. Images are re-encoded as
+ * JPEG at a readable size; PDFs have their text extracted. Throws an error
+ * meant for the user when the file cannot be used.
+ */
+export async function createAttachment(file: File): Promise<Attachment> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error(`${file.name} is larger than 20 MB.`);
+  }
+  const id = generateId();
+
+  if (file.type === 'application/pdf') {
+    const text = await extractPdfText(file);
+    await storeBlob(id, file);
+    return { id, name: file.name, mimeType: file.type, size: file.size, text };
+  }
+
+  if (file.type.startsWith('image/')) {
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(file);
+    } catch {
+      throw new Error(`${file.name} could not be read as an image.`);
+    }
+    try {
+      const blob = await canvasToBlob(drawScaled(bitmap, MAX_IMAGE_SIDE), 'image/jpeg', 0.85);
+      const thumbnail = drawScaled(bitmap, THUMBNAIL_SIDE).toDataURL('image/jpeg', 0.7);
+      await storeBlob(id, blob);
+      return { id, name: file.name, mimeType: 'image/jpeg', size: blob.size, thumbnail };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  throw new Error(`${file.name} is not an image or a PDF.`);
+}
+
+function drawScaled(bitmap: ImageBitmap, maxSide: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d');
+  if (context) {
+    // JPEG has no transparency, so transparent areas become white rather than black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  }
+  return canvas;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), type, quality);
+  });
+}
+
+/**
+ * Pulls the selectable text out of a PDF, page by page, stopping once
+ * `maxChars` is reached. Throws an error meant for the user when there is none.
+ */
+export async function extractPdfText(file: File, maxChars = MAX_PDF_TEXT_CHARS): Promise<string> {
+  // pdf.js is large, so it is only loaded once the first PDF is attached
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  let pdf: Awaited<ReturnType<typeof pdfjs.getDocument>['promise']>;
+  try {
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  } catch {
+    throw new Error(`${file.name} could not be opened as a PDF.`);
+  }
+
+  try {
+    const pages: string[] = [];
+    let length = 0;
+    for (let pageNumber = 1; pageNumber <= pdf.numPages && length < maxChars; pageNumber++) {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .trim();
+      if (text) {
+        pages.push(text);
+        length += text.length;
+      }
+    }
+
+    const text = pages.join('\n\n');
+    if (!text) {
+      throw new Error(`${file.name} has no selectable text. Attach scanned pages as images instead.`);
+    }
+    return text.length > maxChars ? `${text.slice(0, maxChars)}\n[...rest of the PDF left out]` : text;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+async function storeBlob(id: string, blob: Blob): Promise<void> {
+  if (isIndexedDBAvailable()) {
+    try {
+      await putBlob(id, blob);
+      return;
+    } catch (error) {
+      console.error('Error storing attachment, keeping it in memory:', error);
+    }
+  }
+  memoryBlobs.set(id, blob);
+}
+
+export async function loadAttachmentBlob(id: string): Promise<Blob | undefined> {
+  if (memoryBlobs.has(id)) return memoryBlobs.get(id);
+  if (!isIndexedDBAvailable()) return undefined;
+  try {
+    return await getBlob(id);
+  } catch (error) {
+    console.error('Error loading attachment:', error);
+    return undefined;
+  }
+}
+
+// The file as base64 without a data URL prefix, or null when it is gone (e.g. restored from a backup made without it)
+export async function readAttachmentData(attachment: Attachment): Promise<string | null> {
+  const blob = await loadAttachmentBlob(attachment.id);
+  if (!blob) return null;
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+}
+
+// An attachment file as carried in a backup
+export interface AttachmentFile {
+  mimeType: string;
+  data: string; // base64
+}
+
+// Every attachment the conversations refer to; edited copies share their files, so each appears once
+export function collectAttachments(conversations: Conversation[]): Attachment[] {
+  const attachments = new Map(
+    conversations.flatMap(c => c.messages.flatMap(m => m.attachments || [])).map(a => [a.id, a])
+  );
+  return [...attachments.values()];
+}
+
+// The stored files for a backup, keyed by attachment id; files that are already gone are left out
+export async function exportAttachmentFiles(conversations: Conversation[]): Promise<Record<string, AttachmentFile>> {
+  const files: Record<string, AttachmentFile> = {};
+  for (const attachment of collectAttachments(conversations)) {
+    const data = await readAttachmentData(attachment);
+    if (data) files[attachment.id] = { mimeType: attachment.mimeType, data };
+  }
+  return files;
+}
+
+// Writes back the backup's files that the restored conversations refer to
+export async function importAttachmentFiles(files: Record<string, AttachmentFile>, conversations: Conversation[]): Promise<void> {
+  for (const attachment of collectAttachments(conversations)) {
+    const file = files[attachment.id];
+    if (!file) continue;
+    const bytes = Uint8Array.from(atob(file.data), char => char.charCodeAt(0));
+    await storeBlob(attachment.id, new Blob([bytes], { type: file.mimeType }));
+  }
+}
+
+export async function deleteAttachments(attachments: Attachment[]): Promise<void> {
+  const ids = attachments.map(a => a.id);
+  ids.forEach(id => memoryBlobs.delete(id));
+  if (!isIndexedDBAvailable()) return;
+  try {
+    await deleteBlobs(ids);
+  } catch (error) {
+    console.error('Error deleting attachments:', error);
+  }
+}
+
+export async function openAttachment(attachment: Attachment): Promise<boolean> {
+  const blob = await loadAttachmentBlob(attachment.id);
+  if (!blob) return false;
+  const url = URL.createObjectURL(blob);
+  window.open(url, '_blank', 'noopener');
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  return true;
+}
+
+/**
+ * The message as plain text for models, transcripts and token estimates:
+ * images are named, PDFs contribute their extracted text.
+ */
+export function getMessageText(message: Pick<Message, 'content' | 'attachments'>): string {
+  if (!message.attachments?.length) return message.content;
+  const parts = message.attachments.map(a =>
+    a.text !== undefined ? `[Attached PDF: ${a.name}]\n${a.text}` : `[Attached image: ${a.name}]`
+  );
+  return [...parts, message.content].filter(Boolean).join('\n\n');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
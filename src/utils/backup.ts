@@ -0,0 +1,277 @@
+// src/utils/backup.ts
+import { APISettings, Attachment, Conversation, FlashcardDeck, Flowchart, LibraryDocument, Note, StudySession } from '../types';
+import { AttachmentFile, collectAttachments } from './attachments';
+import { RECORD_STORES, RecordStore } from './db';
+import { currentVersion } from './migrations';
+import { decodeRecords, normalizeSettings } from './storage';
+import { EncryptedVault, applySecrets, extractSecrets, isEncryptedVault } from './vault';
+
+const BACKUP_FORMAT = 'ai-tutor-backup';
+// Version 1 is the original export: conversations, notes and settings with no format marker.
+// Version 3 stopped writing API keys in plain text; they travel only inside `vault`.
+// Version 4 added finished quizzes (`studySessions`), version 5 flashcard decks (`decks`),
+// version 6 the image and PDF files attached to messages (`attachments`),
+// version 7 library documents with their passages (`documents`).
+const BACKUP_VERSION = 7;
+
+export interface BackupData {
+  conversations: Conversation[];
+  notes: Note[];
+  flowcharts: Flowchart[];
+  studySessions: StudySession[];
+  decks: FlashcardDeck[];
+  documents: LibraryDocument[];
+  settings: APISettings;
+}
+
+export interface BackupFile extends BackupData {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  schemaVersions: Record<RecordStore, number>;
+  attachments: Record<string, AttachmentFile>; // keyed by attachment id
+  vault?: EncryptedVault; // API keys, encrypted with the passphrase set when the backup was made
+}
+
+export interface ParsedBackup {
+  data: BackupData;
+  version: number;
+  exportedAt?: Date;
+  hasSettings: boolean;
+  vault?: EncryptedVault;
+  attachments: Record<string, AttachmentFile>;
+  skipped: number; // records that could not be read
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Everything a restore reports on: the record stores plus the document library
+export type BackupEntity = RecordStore | 'documents';
+
+export interface EntityChanges {
+  added: number;
+  updated: number;
+  kept: number; // present in both and the local copy is as new or newer
+  removed: number; // only in replace mode
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  changes: Record<BackupEntity, EntityChanges>;
+  replacesSettings: boolean;
+  // Attachments of the backup's conversations whose files it does not carry (older backups)
+  missingAttachments: Attachment[];
+  result: BackupData;
+}
+
+/**
+ * Builds the backup file. API keys are always removed from the settings and
+ * only included as the encrypted vault, when one is given. `attachments`
+ * holds the files of the conversations' attachments (see exportAttachmentFiles).
+ */
+export function createBackup(
+  data: BackupData,
+  vault?: EncryptedVault | null,
+  attachments: Record<string, AttachmentFile> = {}
+): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersions: {
+      conversations: currentVersion('conversations'),
+      notes: currentVersion('notes'),
+      flowcharts: currentVersion('flowcharts'),
+      studySessions: currentVersion('studySessions'),
+      decks: currentVersion('decks'),
+    },
+    ...data,
+    settings: extractSecrets(data.settings).settings,
+    attachments,
+    ...(vault ? { vault } : {}),
+  };
+}
+
+/**
+ * Reads a backup file of any known version. Records are migrated from the
+ * schema versions the file declares, like stored data, so old backups restore
+ * into the current schema.
+ */
+export function parseBackup(text: string, currentSettings: APISettings): ParsedBackup {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('The file is not an AI Tutor backup.');
+  }
+
+  const isVersioned = parsed.format === BACKUP_FORMAT;
+  const version = isVersioned && typeof parsed.version === 'number' ? parsed.version : 1;
+  if (version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+  if (![...RECORD_STORES, 'documents'].some(store => Array.isArray(parsed[store]))) {
+    throw new Error('The file does not contain any conversations, notes, flowcharts or documents.');
+  }
+
+  // Files from before schema versions were recorded hold unversioned records
+  const schemaVersions = (typeof parsed.schemaVersions === 'object' && parsed.schemaVersions !== null
+    ? parsed.schemaVersions
+    : {}) as Partial<Record<RecordStore, unknown>>;
+  const schemaVersionOf = (store: RecordStore): number => {
+    const version = schemaVersions[store];
+    return typeof version === 'number' ? version : 0;
+  };
+  if (RECORD_STORES.some(store => schemaVersionOf(store) > currentVersion(store))) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+
+  let skipped = 0;
+  const decode = <T>(store: RecordStore): T[] => {
+    const values = Array.isArray(parsed[store]) ? (parsed[store] as unknown[]) : [];
+    const decoded = decodeRecords<T>(store, values, schemaVersionOf(store));
+    skipped += decoded.skipped;
+    return decoded.records;
+  };
+
+  const documents: LibraryDocument[] = [];
+  for (const value of Array.isArray(parsed.documents) ? parsed.documents : []) {
+    const document = decodeDocument(value);
+    if (document) documents.push(document);
+    else skipped++;
+  }
+
+  const attachments: Record<string, AttachmentFile> = {};
+  if (typeof parsed.attachments === 'object' && parsed.attachments !== null) {
+    for (const [id, file] of Object.entries(parsed.attachments as Record<string, unknown>)) {
+      if (isAttachmentFile(file)) attachments[id] = file;
+    }
+  }
+
+  const exportedAt = parsed.exportedAt || parsed.exportDate;
+  return {
+    data: {
+      conversations: decode<Conversation>('conversations'),
+      notes: decode<Note>('notes'),
+      flowcharts: decode<Flowchart>('flowcharts'),
+      studySessions: decode<StudySession>('studySessions'),
+      decks: decode<FlashcardDeck>('decks'),
+      documents,
+      settings: parsed.settings ? normalizeSettings(parsed.settings as Partial<APISettings>) : currentSettings,
+    },
+    version,
+    exportedAt: typeof exportedAt === 'string' ? new Date(exportedAt) : undefined,
+    hasSettings: !!parsed.settings,
+    vault: isEncryptedVault(parsed.vault) ? parsed.vault : undefined,
+    attachments,
+    skipped,
+  };
+}
+
+function decodeDocument(value: unknown): LibraryDocument | null {
+  const document = value as Record<string, unknown>;
+  if (typeof value !== 'object' || value === null) return null;
+  if (typeof document.id !== 'string' || typeof document.name !== 'string') return null;
+  if (!Array.isArray(document.chunks) || !document.chunks.every(chunk => typeof chunk === 'string')) return null;
+  const addedAt = new Date(document.addedAt as string);
+  return {
+    id: document.id,
+    name: document.name,
+    mimeType: typeof document.mimeType === 'string' ? document.mimeType : 'text/plain',
+    size: typeof document.size === 'number' ? document.size : 0,
+    addedAt: isNaN(addedAt.getTime()) ? new Date() : addedAt,
+    chunks: document.chunks,
+  };
+}
+
+function isAttachmentFile(value: unknown): value is AttachmentFile {
+  const file = value as AttachmentFile;
+  return typeof value === 'object' && value !== null && typeof file.mimeType === 'string' && typeof file.data === 'string';
+}
+
+const byUpdatedAt = (record: { updatedAt: Date }) => record.updatedAt;
+
+function mergeById<T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  mode: RestoreMode,
+  dateOf: (record: T) => Date
+): { records: T[]; changes: EntityChanges } {
+  const changes: EntityChanges = { added: 0, updated: 0, kept: 0, removed: 0 };
+  const currentById = new Map(current.map(record => [record.id, record]));
+  const incomingIds = new Set(incoming.map(record => record.id));
+  const records: T[] = [];
+
+  for (const record of incoming) {
+    const existing = currentById.get(record.id);
+    if (!existing) {
+      changes.added++;
+      records.push(record);
+    } else if (dateOf(record).getTime() > dateOf(existing).getTime()) {
+      changes.updated++;
+      records.push(record);
+    } else {
+      changes.kept++;
+      records.push(existing);
+    }
+  }
+
+  for (const record of current) {
+    if (incomingIds.has(record.id)) continue;
+    if (mode === 'merge') {
+      records.push(record);
+    } else {
+      changes.removed++;
+    }
+  }
+
+  return { records, changes };
+}
+
+// Keys missing from the backup keep their current value; keys it does carry (older files) win
+function restoreSettings(current: APISettings, incoming: APISettings): APISettings {
+  const { settings, secrets } = extractSecrets(incoming);
+  return applySecrets(applySecrets(settings, extractSecrets(current).secrets), secrets);
+}
+
+/**
+ * Works out what restoring a backup would change. Records are matched by id
+ * and the newer `updatedAt` wins; library documents, which never change once
+ * added, compare `addedAt` instead. Replace mode also drops local records that
+ * are not in the backup and takes the backup's settings.
+ */
+export function planRestore(current: BackupData, backup: ParsedBackup, mode: RestoreMode): RestorePlan {
+  const conversations = mergeById(current.conversations, backup.data.conversations, mode, byUpdatedAt);
+  const notes = mergeById(current.notes, backup.data.notes, mode, byUpdatedAt);
+  const flowcharts = mergeById(current.flowcharts, backup.data.flowcharts, mode, byUpdatedAt);
+  const studySessions = mergeById(current.studySessions, backup.data.studySessions, mode, byUpdatedAt);
+  const decks = mergeById(current.decks, backup.data.decks, mode, byUpdatedAt);
+  const documents = mergeById(current.documents, backup.data.documents, mode, document => document.addedAt);
+  const replacesSettings = mode === 'replace' && backup.hasSettings;
+
+  return {
+    mode,
+    changes: {
+      conversations: conversations.changes,
+      notes: notes.changes,
+      flowcharts: flowcharts.changes,
+      studySessions: studySessions.changes,
+      decks: decks.changes,
+      documents: documents.changes,
+    },
+    replacesSettings,
+    missingAttachments: collectAttachments(backup.data.conversations).filter(a => !backup.attachments[a.id]),
+    result: {
+      conversations: conversations.records,
+      notes: notes.records,
+      flowcharts: flowcharts.records,
+      studySessions: studySessions.records,
+      decks: decks.records,
+      documents: documents.records,
+      settings: replacesSettings ? restoreSettings(current.settings, backup.data.settings) : current.settings,
+    },
+  };
+}
@@ -0,0 +1,79 @@
+// src/utils/conversationTree.ts
+// A conversation's messages form a tree through `parentId`. Editing or
+// regenerating adds a sibling instead of replacing the old message, and
+// `activeLeafId` marks the end of the branch on screen. Services only ever
+// see the active path, as a plain list.
+
+import { Conversation, Message } from '../types';
+
+export interface BranchPosition {
+  index: number; // 0-based among the message's siblings
+  total: number;
+}
+
+/**
+ * The messages from the root down to the active leaf. Falls back to the last
+ * stored message when the active leaf is missing.
+ */
+export function getActivePath(conversation: Conversation): Message[] {
+  const { messages } = conversation;
+  if (messages.length === 0) return [];
+
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const leaf = (conversation.activeLeafId && byId.get(conversation.activeLeafId)) || messages[messages.length - 1];
+  return getPathTo(byId, leaf);
+}
+
+function getPathTo(byId: Map<string, Message>, message: Message): Message[] {
+  const path: Message[] = [];
+  const seen = new Set<string>();
+  let current: Message | undefined = message;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+// The conversation as services expect it: `messages` holds only the active path
+export function withActivePath(conversation: Conversation): Conversation {
+  return { ...conversation, messages: getActivePath(conversation) };
+}
+
+export function getSiblings(conversation: Conversation, message: Message): Message[] {
+  return conversation.messages.filter(m => m.parentId === message.parentId);
+}
+
+export function getBranchPosition(conversation: Conversation, message: Message): BranchPosition {
+  const siblings = getSiblings(conversation, message);
+  return { index: siblings.findIndex(m => m.id === message.id), total: siblings.length };
+}
+
+// Follows the newest child at every step, so returning to a branch shows where it ended
+export function findLatestLeaf(conversation: Conversation, messageId: string): string {
+  let current = messageId;
+  for (;;) {
+    const children = conversation.messages.filter(m => m.parentId === current);
+    if (children.length === 0) return current;
+    current = children[children.length - 1].id;
+  }
+}
+
+/**
+ * Adds a message and makes it the active leaf. The caller sets `parentId`:
+ * the current leaf to continue the branch, or an existing parent to fork it.
+ */
+export function appendMessage(conversation: Conversation, message: Message): Conversation {
+  return { ...conversation, messages: [...conversation.messages, message], activeLeafId: message.id };
+}
+
+// Shows the sibling `offset` steps away from `messageId`, along with its latest continuation
+export function switchBranch(conversation: Conversation, messageId: string, offset: number): Conversation {
+  const message = conversation.messages.find(m => m.id === messageId);
+  if (!message) return conversation;
+  const siblings = getSiblings(conversation, message);
+  const target = siblings[siblings.findIndex(m => m.id === messageId) + offset];
+  if (!target) return conversation;
+  return { ...conversation, activeLeafId: findLatestLeaf(conversation, target.id) };
+}
@@ -0,0 +1,236 @@
+// src/utils/db.ts
+// Thin promise wrapper around IndexedDB. Schema changes go through DB_VERSION
+// and the upgrade handler below.
+
+const DB_NAME = 'ai-tutor';
+const DB_VERSION = 6;
+
+export type RecordStore = 'conversations' | 'notes' | 'flowcharts' | 'studySessions' | 'decks';
+export type StoreName = RecordStore | 'meta' | 'quarantine' | 'attachments' | 'documents';
+
+export const RECORD_STORES: RecordStore[] = ['conversations', 'notes', 'flowcharts', 'studySessions', 'decks'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 'blocked': another open tab holds an older version, so this tab cannot
+ * upgrade until that tab reloads or closes. 'versionchange': a newer tab
+ * upgraded the database, so this tab closed its connection and must reload.
+ */
+export type DatabaseNotice = 'blocked' | 'versionchange';
+const noticeListeners = new Set<(notice: DatabaseNotice) => void>();
+
+// Returns an unsubscribe function
+export function onDatabaseNotice(listener: (notice: DatabaseNotice) => void): () => void {
+  noticeListeners.add(listener);
+  return () => noticeListeners.delete(listener);
+}
+
+function notify(notice: DatabaseNotice) {
+  noticeListeners.forEach(listener => listener(notice));
+}
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const conversations = db.createObjectStore('conversations', { keyPath: 'id' });
+    conversations.createIndex('updatedAt', 'updatedAt');
+
+    const notes = db.createObjectStore('notes', { keyPath: 'id' });
+    notes.createIndex('updatedAt', 'updatedAt');
+    notes.createIndex('sourceConversationId', 'sourceConversationId');
+
+    const flowcharts = db.createObjectStore('flowcharts', { keyPath: 'id' });
+    flowcharts.createIndex('updatedAt', 'updatedAt');
+    flowcharts.createIndex('sourceConversationId', 'sourceConversationId');
+
+    // Key/value store for settings and bookkeeping such as the migration flag
+    db.createObjectStore('meta');
+  }
+  if (oldVersion < 2) {
+    // Data that could not be read or migrated, kept for manual recovery
+    db.createObjectStore('quarantine', { keyPath: 'id', autoIncrement: true });
+  }
+  if (oldVersion < 3) {
+    // Attachment files, kept apart from messages so conversations stay small and sync cheaply
+    db.createObjectStore('attachments', { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    // Library documents with their passages; local to this device like attachments
+    db.createObjectStore('documents', { keyPath: 'id' });
+  }
+  if (oldVersion < 5) {
+    // Finished quiz attempts, for the quiz history
+    const studySessions = db.createObjectStore('studySessions', { keyPath: 'id' });
+    studySessions.createIndex('updatedAt', 'updatedAt');
+  }
+  if (oldVersion < 6) {
+    // Flashcard decks, each holding its cards and their review schedule
+    const decks = db.createObjectStore('decks', { keyPath: 'id' });
+    decks.createIndex('updatedAt', 'updatedAt');
+    decks.createIndex('sourceConversationId', 'sourceConversationId');
+  }
+}
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when a newer tab upgrades, instead of blocking it until this tab closes
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+          notify('versionchange');
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => {
+        console.warn('IndexedDB upgrade blocked by another open tab');
+        notify('blocked');
+      };
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+export async function getAllRecords<T>(store: RecordStore | 'quarantine' | 'documents'): Promise<T[]> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+/**
+ * Writes and deletes records of one store in a single transaction.
+ */
+export async function writeRecords<T>(store: RecordStore, puts: T[], deletes: string[] = []): Promise<void> {
+  if (puts.length === 0 && deletes.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  puts.forEach(record => objectStore.put(record));
+  deletes.forEach(id => objectStore.delete(id));
+  await transactionDone(tx);
+}
+
+export async function getMeta<T>(key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction('meta', 'readonly').objectStore('meta').get(key) as IDBRequest<T | undefined>);
+}
+
+export async function setMeta<T>(key: string, value: T): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction('meta', 'readwrite');
+  tx.objectStore('meta').put(value, key);
+  await transactionDone(tx);
+}
+
+/**
+ * Writes several stores atomically, used by the one-time migration.
+ */
+export async function writeAll(
+  records: Partial<Record<RecordStore, unknown[]>>,
+  meta: Record<string, unknown> = {},
+  quarantine: unknown[] = []
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([...RECORD_STORES, 'meta', 'quarantine'], 'readwrite');
+  for (const store of RECORD_STORES) {
+    (records[store] || []).forEach(record => tx.objectStore(store).put(record));
+  }
+  Object.entries(meta).forEach(([key, value]) => tx.objectStore('meta').put(value, key));
+  quarantine.forEach(item => tx.objectStore('quarantine').add(item));
+  await transactionDone(tx);
+}
+
+/**
+ * Moves records out of a store and into quarantine in one transaction.
+ */
+export async function quarantineRecords(store: RecordStore, ids: string[], items: unknown[]): Promise<void> {
+  if (items.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction([store, 'quarantine'], 'readwrite');
+  items.forEach(item => tx.objectStore('quarantine').add(item));
+  ids.forEach(id => tx.objectStore(store).delete(id));
+  await transactionDone(tx);
+}
+
+interface StoredBlob {
+  id: string;
+  blob: Blob;
+}
+
+export async function putBlob(id: string, blob: Blob): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction('attachments', 'readwrite');
+  const record: StoredBlob = { id, blob };
+  tx.objectStore('attachments').put(record);
+  await transactionDone(tx);
+}
+
+export async function getBlob(id: string): Promise<Blob | undefined> {
+  const db = await openDatabase();
+  const record = await requestToPromise(
+    db.transaction('attachments', 'readonly').objectStore('attachments').get(id) as IDBRequest<StoredBlob | undefined>
+  );
+  return record?.blob;
+}
+
+export async function deleteBlobs(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction('attachments', 'readwrite');
+  ids.forEach(id => tx.objectStore('attachments').delete(id));
+  await transactionDone(tx);
+}
+
+export async function putDocument(document: { id: string }): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction('documents', 'readwrite');
+  tx.objectStore('documents').put(document);
+  await transactionDone(tx);
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction('documents', 'readwrite');
+  tx.objectStore('documents').delete(id);
+  await transactionDone(tx);
+}
+
+export async function clearQuarantineStore(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction('quarantine', 'readwrite');
+  tx.objectStore('quarantine').clear();
+  await transactionDone(tx);
+}
+
+export async function clearStores(): Promise<void> {
+  const db = await openDatabase();
+  const stores: StoreName[] = [...RECORD_STORES, 'meta', 'quarantine', 'attachments', 'documents'];
+  const tx = db.transaction(stores, 'readwrite');
+  stores.forEach(store => tx.objectStore(store).clear());
+  await transactionDone(tx);
+}
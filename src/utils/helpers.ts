@@ -18,3 +18,12 @@ export function formatDate(date: Date): string {
     minute: '2-digit',
   }).format(date);
 }
+
+// "m:ss", or "h:mm:ss" from an hour up
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
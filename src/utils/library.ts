@@ -0,0 +1,121 @@
+// src/utils/library.ts
+// The student's document library. Each document is stored with its passages
+// in the documents store; the search index is built in memory on first use
+// and dropped whenever the library changes here or in another tab.
+
+import { Citation, LibraryDocument } from '../types';
+import { buildIndex, chunkText, searchIndex, SearchIndex } from '../services/retrieval';
+import { extractPdfText } from './attachments';
+import { deleteDocument, getAllRecords, isIndexedDBAvailable, putDocument } from './db';
+import { generateId } from './helpers';
+import { broadcast } from './sync';
+
+export const LIBRARY_ACCEPT = '.txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf';
+
+const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+const MAX_DOCUMENT_CHARS = 2_000_000;
+
+let documents: LibraryDocument[] | null = null;
+let index: SearchIndex<Citation> | null = null;
+// Used when IndexedDB is unavailable; the library then lasts until the page reloads
+let persistent = isIndexedDBAvailable();
+
+function byAddedAtDesc(a: LibraryDocument, b: LibraryDocument) {
+  return b.addedAt.getTime() - a.addedAt.getTime();
+}
+
+export async function loadLibrary(): Promise<LibraryDocument[]> {
+  if (documents) return documents;
+  if (!persistent) return (documents = []);
+  try {
+    documents = (await getAllRecords<LibraryDocument>('documents')).sort(byAddedAtDesc);
+  } catch (error) {
+    console.error('Error loading the document library:', error);
+    persistent = false;
+    documents = [];
+  }
+  return documents;
+}
+
+// Forgets what was loaded so the next read sees changes made in another tab
+export function invalidateLibrary(): void {
+  documents = null;
+  index = null;
+}
+
+async function readDocumentText(file: File): Promise<string> {
+  if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+    return extractPdfText(file, MAX_DOCUMENT_CHARS);
+  }
+  return (await file.text()).slice(0, MAX_DOCUMENT_CHARS);
+}
+
+/**
+ * Reads, splits and stores a text, Markdown or PDF file. Throws an error meant
+ * for the user when the file has no usable text.
+ */
+export async function addToLibrary(file: File): Promise<LibraryDocument> {
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${file.name} is larger than 50 MB.`);
+  }
+  const chunks = chunkText(await readDocumentText(file));
+  if (chunks.length === 0) {
+    throw new Error(`${file.name} has no text to index.`);
+  }
+
+  const added: LibraryDocument = {
+    id: generateId(),
+    name: file.name,
+    mimeType: file.type || 'text/plain',
+    size: file.size,
+    addedAt: new Date(),
+    chunks,
+  };
+  const current = await loadLibrary();
+  if (persistent) await putDocument(added);
+  documents = [added, ...current];
+  index = null;
+  broadcast({ type: 'documents' });
+  return added;
+}
+
+export async function removeFromLibrary(id: string): Promise<void> {
+  const current = await loadLibrary();
+  if (persistent) await deleteDocument(id);
+  documents = current.filter(d => d.id !== id);
+  index = null;
+  broadcast({ type: 'documents' });
+}
+
+/**
+ * Makes the library match the documents planned by a backup restore: new and
+ * newer ones are written, ones left out are deleted, and other tabs reload.
+ */
+export async function restoreLibrary(restored: LibraryDocument[]): Promise<void> {
+  const current = await loadLibrary();
+  if (persistent) {
+    // The plan reuses the loaded objects for documents it keeps as they are
+    const unchanged = new Set(current);
+    const restoredIds = new Set(restored.map(d => d.id));
+    for (const document of restored) {
+      if (!unchanged.has(document)) await putDocument(document);
+    }
+    for (const document of current) {
+      if (!restoredIds.has(document.id)) await deleteDocument(document.id);
+    }
+  }
+  invalidateLibrary();
+  if (!persistent) documents = [...restored].sort(byAddedAtDesc);
+  broadcast({ type: 'documents' });
+}
+
+// The passages that best match `query`, best first
+export async function searchLibrary(query: string, limit: number): Promise<Citation[]> {
+  if (!index) {
+    const passages = (await loadLibrary()).flatMap(doc =>
+      doc.chunks.map((text, chunkIndex) => ({ documentId: doc.id, documentName: doc.name, chunkIndex, text }))
+    );
+    index = buildIndex(passages);
+  }
+  return searchIndex(index, query, limit).map(hit => hit.item);
+}
@@ -0,0 +1,177 @@
+// src/utils/migrations.ts
+// Versioned envelopes for stored records and the forward migrations between versions.
+//
+// To change a stored shape: append a migration to the entity's list below. Its
+// `version` becomes the new current version, and older records are upgraded on
+// the next load and written back.
+
+import { RecordStore } from './db';
+
+export interface StoredEnvelope {
+  id: string;
+  schemaVersion: number;
+  // Copied from the record so IndexedDB indexes work without reaching into `data`
+  updatedAt?: Date;
+  sourceConversationId?: string;
+  data: Record<string, unknown>;
+}
+
+export interface QuarantinedItem {
+  id?: number;
+  source: string; // store or localStorage key the data came from
+  raw: string; // original data serialized as JSON (or the unparseable text itself)
+  reason: string;
+  quarantinedAt: Date;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (record: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// Unversioned data written before envelopes existed counts as version 0
+const migrations: Record<RecordStore, Migration[]> = {
+  conversations: [
+    {
+      version: 1,
+      description: 'Ensure every conversation has a messages array and a title',
+      migrate: record => ({
+        ...record,
+        title: typeof record.title === 'string' ? record.title : 'Untitled conversation',
+        messages: Array.isArray(record.messages) ? record.messages : [],
+      }),
+    },
+    {
+      version: 2,
+      description: 'Link the flat message list into a single branch of the message tree',
+      migrate: record => {
+        const messages = record.messages as { id: string; parentId?: string }[];
+        // Already a tree (e.g. an unversioned copy of current data); relinking would merge its branches
+        if (record.activeLeafId !== undefined || messages.some(message => message.parentId !== undefined)) {
+          return record;
+        }
+        return {
+          ...record,
+          messages: messages.map((message, i) => ({ ...message, parentId: i > 0 ? messages[i - 1].id : undefined })),
+          activeLeafId: messages.length > 0 ? messages[messages.length - 1].id : undefined,
+        };
+      },
+    },
+  ],
+  notes: [
+    {
+      version: 1,
+      description: 'Ensure every note has a title',
+      migrate: record => ({
+        ...record,
+        title: typeof record.title === 'string' ? record.title : String(record.content || '').slice(0, 50),
+      }),
+    },
+  ],
+  flowcharts: [
+    {
+      version: 1,
+      description: 'Ensure every flowchart has node and edge arrays',
+      migrate: record => ({
+        ...record,
+        nodes: Array.isArray(record.nodes) ? record.nodes : [],
+        edges: Array.isArray(record.edges) ? record.edges : [],
+      }),
+    },
+  ],
+  studySessions: [
+    {
+      version: 1,
+      description: 'Mark questions from before question types as multiple choice',
+      migrate: record => ({
+        ...record,
+        questions: Array.isArray(record.questions)
+          ? record.questions.map(question => ({ type: 'multiple-choice', ...question }))
+          : record.questions,
+      }),
+    },
+  ],
+  decks: [],
+};
+
+// Minimal shape checks; anything failing them is quarantined rather than loaded
+const validators: Record<RecordStore, (record: Record<string, unknown>) => string | null> = {
+  conversations: record => (Array.isArray(record.messages) ? null : 'messages is not an array'),
+  notes: record => (typeof record.content === 'string' ? null : 'content is not a string'),
+  flowcharts: record =>
+    Array.isArray(record.nodes) && Array.isArray(record.edges) ? null : 'nodes or edges are not arrays',
+  studySessions: record => (Array.isArray(record.questions) ? null : 'questions is not an array'),
+  decks: record => (Array.isArray(record.cards) ? null : 'cards is not an array'),
+};
+
+export function currentVersion(store: RecordStore): number {
+  const list = migrations[store];
+  return list.length > 0 ? list[list.length - 1].version : 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isEnvelope(value: unknown): value is StoredEnvelope {
+  return isRecord(value) && typeof value.schemaVersion === 'number' && isRecord(value.data);
+}
+
+export function toEnvelope(store: RecordStore, record: { id: string }): StoredEnvelope {
+  const data = record as unknown as Record<string, unknown>;
+  return {
+    id: record.id,
+    schemaVersion: currentVersion(store),
+    updatedAt: data.updatedAt instanceof Date ? data.updatedAt : undefined,
+    sourceConversationId: typeof data.sourceConversationId === 'string' ? data.sourceConversationId : undefined,
+    data,
+  };
+}
+
+export type UpgradeResult =
+  | { ok: true; record: Record<string, unknown>; upgraded: boolean }
+  | { ok: false; reason: string };
+
+/**
+ * Brings a stored value (an envelope, or a bare legacy record) up to the
+ * current schema. Records written by a newer version of the app are loaded
+ * as they are and never downgraded.
+ */
+export function upgradeRecord(store: RecordStore, stored: unknown): UpgradeResult {
+  const envelope = isEnvelope(stored) ? stored : null;
+  const initial = envelope ? envelope.data : stored;
+  const fromVersion = envelope ? envelope.schemaVersion : 0;
+
+  if (!isRecord(initial) || typeof initial.id !== 'string') {
+    return { ok: false, reason: 'record has no string id' };
+  }
+
+  let record = initial;
+
+  try {
+    for (const migration of migrations[store]) {
+      if (migration.version > fromVersion) {
+        record = migration.migrate(record);
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, reason: `migration failed: ${message}` };
+  }
+
+  const invalid = validators[store](record);
+  if (invalid) return { ok: false, reason: invalid };
+
+  return { ok: true, record, upgraded: fromVersion < currentVersion(store) };
+}
+
+export function createQuarantinedItem(source: string, raw: unknown, reason: string): QuarantinedItem {
+  let serialized: string;
+  try {
+    serialized = typeof raw === 'string' ? raw : JSON.stringify(raw);
+  } catch {
+    serialized = String(raw);
+  }
+  return { source, raw: serialized, reason, quarantinedAt: new Date() };
+}
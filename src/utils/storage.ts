@@ -1,16 +1,67 @@
-import { Conversation, APISettings, Note, Flowchart } from '../types';
+import { Conversation, APISettings, Note, Flowchart, FlashcardDeck, StudySession } from '../types';
+import {
+  RECORD_STORES,
+  RecordStore,
+  clearQuarantineStore,
+  clearStores,
+  getAllRecords,
+  getMeta,
+  isIndexedDBAvailable,
+  quarantineRecords,
+  writeAll,
+  writeRecords,
+} from './db';
+import {
+  QuarantinedItem,
+  StoredEnvelope,
+  createQuarantinedItem,
+  currentVersion,
+  toEnvelope,
+  upgradeRecord,
+} from './migrations';
+import {
+  EncryptedVault,
+  VaultSession,
+  applySecrets,
+  createVaultSession,
+  extractSecrets,
+  isEncryptedVault,
+  openVault,
+  sealSecrets,
+  unsealSecrets,
+} from './vault';
+import { SyncMessage, broadcast, openSyncChannel } from './sync';
 
+// Legacy localStorage keys. They are read once for the IndexedDB migration,
+// and stay in use as a fallback where IndexedDB is unavailable.
 const CONVERSATIONS_KEY = 'ai-tutor-conversations';
 const SETTINGS_KEY = 'ai-tutor-settings';
 const NOTES_KEY = 'ai-tutor-notes';
 const FLOWCHARTS_KEY = 'ai-tutor-flowcharts';
+const STUDY_SESSIONS_KEY = 'ai-tutor-study-sessions';
+const DECKS_KEY = 'ai-tutor-decks';
+const QUARANTINE_KEY = 'ai-tutor-quarantine';
+const VAULT_KEY = 'ai-tutor-vault';
+
+const SETTINGS_META_KEY = 'settings';
+const MIGRATED_META_KEY = 'migratedFromLocalStorage';
+const VAULT_META_KEY = 'vault';
 
 const defaultSettings: APISettings = {
   googleApiKey: '',
   zhipuApiKey: '',
   mistralApiKey: '',
+  anthropicApiKey: '',
   selectedModel: 'google',
   selectedTutorMode: 'standard',
+  customEndpoints: [],
+  endpointOverrides: {},
+  generation: {},
+  maxRetries: 2,
+  enableFailover: false,
+  prices: {},
+  autoLockMinutes: 15,
+  useLibrary: false,
 };
 
 // Helper function to safely parse dates
@@ -20,162 +71,697 @@ function parseDate(dateValue: any): Date {
   return isNaN(parsed.getTime()) ? new Date() : parsed;
 }
 
+function normalizeConversation(conv: any): Conversation {
+  return {
+    ...conv,
+    createdAt: parseDate(conv.createdAt),
+    updatedAt: parseDate(conv.updatedAt),
+    summary: conv.summary ? { ...conv.summary, updatedAt: parseDate(conv.summary.updatedAt) } : undefined,
+    messages: Array.isArray(conv.messages) ? conv.messages.map((msg: any) => ({
+      ...msg,
+      timestamp: parseDate(msg.timestamp),
+    })) : [],
+  };
+}
+
+function normalizeNote(note: any): Note {
+  return {
+    ...note,
+    createdAt: parseDate(note.createdAt),
+    updatedAt: parseDate(note.updatedAt),
+  };
+}
+
+function normalizeFlowchart(chart: any): Flowchart {
+  return {
+    ...chart,
+    createdAt: parseDate(chart.createdAt),
+    updatedAt: parseDate(chart.updatedAt),
+  };
+}
+
+function normalizeStudySession(value: unknown): StudySession {
+  const session = value as StudySession;
+  return {
+    ...session,
+    title: typeof session.title === 'string' ? session.title : 'Quiz',
+    createdAt: parseDate(session.createdAt),
+    updatedAt: parseDate(session.updatedAt || session.createdAt),
+  };
+}
+
+function normalizeDeck(value: unknown): FlashcardDeck {
+  const deck = value as FlashcardDeck;
+  return {
+    ...deck,
+    createdAt: parseDate(deck.createdAt),
+    updatedAt: parseDate(deck.updatedAt),
+    cards: deck.cards.map(card => ({
+      ...card,
+      due: parseDate(card.due),
+      lastReviewedAt: card.lastReviewedAt ? parseDate(card.lastReviewedAt) : undefined,
+    })),
+  };
+}
+
+// Ensure all required fields exist
+export function normalizeSettings(parsed: Partial<APISettings> | null | undefined): APISettings {
+  if (!parsed) return defaultSettings;
+  return {
+    googleApiKey: parsed.googleApiKey || '',
+    zhipuApiKey: parsed.zhipuApiKey || '',
+    mistralApiKey: parsed.mistralApiKey || '',
+    anthropicApiKey: parsed.anthropicApiKey || '',
+    selectedModel: parsed.selectedModel || 'google',
+    selectedTutorMode: parsed.selectedTutorMode || 'standard',
+    customEndpoints: Array.isArray(parsed.customEndpoints) ? parsed.customEndpoints : [],
+    endpointOverrides: parsed.endpointOverrides || {},
+    generation: parsed.generation || {},
+    maxRetries: typeof parsed.maxRetries === 'number' ? parsed.maxRetries : 2,
+    enableFailover: !!parsed.enableFailover,
+    prices: parsed.prices || {},
+    autoLockMinutes: typeof parsed.autoLockMinutes === 'number' ? parsed.autoLockMinutes : 15,
+    useLibrary: !!parsed.useLibrary,
+  };
+}
+
+interface LoadResult {
+  records: Record<string, unknown>[];
+  // Upgraded records that should be written back at the current version
+  upgraded: Record<string, unknown>[];
+  quarantined: QuarantinedItem[];
+  quarantinedIds: string[];
+}
+
+// Runs stored values through the migration registry, separating out anything unreadable
+function loadStoredValues(store: RecordStore, source: string, values: unknown[]): LoadResult {
+  const result: LoadResult = { records: [], upgraded: [], quarantined: [], quarantinedIds: [] };
+  for (const value of values) {
+    const upgrade = upgradeRecord(store, value);
+    if (upgrade.ok) {
+      result.records.push(upgrade.record);
+      if (upgrade.upgraded) result.upgraded.push(upgrade.record);
+    } else {
+      result.quarantined.push(createQuarantinedItem(source, value, upgrade.reason));
+      const id = (value as { id?: unknown } | null)?.id;
+      if (typeof id === 'string') result.quarantinedIds.push(id);
+    }
+  }
+  return result;
+}
+
+/**
+ * Reads a localStorage key holding either a bare array (pre-versioning) or a
+ * `{ schemaVersion, records }` envelope. Unparseable contents are quarantined.
+ */
+function readLegacyArray(store: RecordStore, key: string): LoadResult {
+  const stored = localStorage.getItem(key);
+  if (!stored) return { records: [], upgraded: [], quarantined: [], quarantinedIds: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+    return { records: [], upgraded: [], quarantined: [createQuarantinedItem(key, stored, 'invalid JSON')], quarantinedIds: [] };
+  }
+
+  if (Array.isArray(parsed)) return loadStoredValues(store, key, parsed);
+
+  const envelope = parsed as { schemaVersion?: unknown; records?: unknown };
+  if (typeof envelope.schemaVersion === 'number' && Array.isArray(envelope.records)) {
+    const version = envelope.schemaVersion;
+    return loadStoredValues(store, key, envelope.records.map(record => ({
+      id: (record as { id?: unknown })?.id,
+      schemaVersion: version,
+      data: record,
+    })));
+  }
+
+  console.error(`Invalid format for ${key}`);
+  return {
+    records: [],
+    upgraded: [],
+    quarantined: [createQuarantinedItem(key, stored, 'unrecognized format')],
+    quarantinedIds: [],
+  };
+}
+
+function readLegacySettings(): APISettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return normalizeSettings(stored ? JSON.parse(stored) : null);
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return defaultSettings;
+  }
+}
+
+function readLegacyVault(): EncryptedVault | null {
+  try {
+    const stored = localStorage.getItem(VAULT_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return isEncryptedVault(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function removeLegacyKeys() {
+  [CONVERSATIONS_KEY, SETTINGS_KEY, NOTES_KEY, FLOWCHARTS_KEY, STUDY_SESSIONS_KEY, DECKS_KEY, QUARANTINE_KEY, VAULT_KEY].forEach(key => localStorage.removeItem(key));
+}
+
+function readLegacyQuarantine(): QuarantinedItem[] {
+  try {
+    const stored = localStorage.getItem(QUARANTINE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// --- In-memory cache ---
+// Reads are synchronous from the cache, hydrated once by init() before the app renders.
+// Saves update the cache and queue per-record writes for whatever changed.
+
+type CachedRecord = { id: string };
+
+const cache: {
+  records: Record<RecordStore, Map<string, CachedRecord>>;
+  settings: APISettings;
+  quarantine: QuarantinedItem[];
+  vault: EncryptedVault | null;
+} = {
+  records: { conversations: new Map(), notes: new Map(), flowcharts: new Map(), studySessions: new Map(), decks: new Map() },
+  settings: defaultSettings,
+  quarantine: [],
+  vault: null,
+};
+
+// Derived key of the unlocked vault; null while locked or when no passphrase is set
+let vaultSession: VaultSession | null = null;
+
+// Ids in the array this tab last saved. Only these can be deleted by a save, so a
+// save from state that has not caught up with another tab never drops its records.
+const localIds: Record<RecordStore, Set<string>> = {
+  conversations: new Set(),
+  notes: new Set(),
+  flowcharts: new Set(),
+  studySessions: new Set(),
+  decks: new Set(),
+};
+// Ids deleted in another tab, so stale state here cannot bring them back
+const remoteDeletes: Record<RecordStore, Set<string>> = {
+  conversations: new Set(),
+  notes: new Set(),
+  flowcharts: new Set(),
+  studySessions: new Set(),
+  decks: new Set(),
+};
+
+export type StorageChange = RecordStore | 'settings' | 'documents';
+const listeners = new Set<(change: StorageChange) => void>();
+
+function notify(change: StorageChange) {
+  listeners.forEach(listener => listener(change));
+}
+
+let backend: 'indexeddb' | 'localStorage' = 'localStorage';
+let writeQueue: Promise<void> = Promise.resolve();
+
+const legacyKeys: Record<RecordStore, string> = {
+  conversations: CONVERSATIONS_KEY,
+  notes: NOTES_KEY,
+  flowcharts: FLOWCHARTS_KEY,
+  studySessions: STUDY_SESSIONS_KEY,
+  decks: DECKS_KEY,
+};
+
+const normalizers: Record<RecordStore, (record: unknown) => CachedRecord> = {
+  conversations: normalizeConversation,
+  notes: normalizeNote,
+  flowcharts: normalizeFlowchart,
+  studySessions: normalizeStudySession,
+  decks: normalizeDeck,
+};
+
+function handleWriteError(error: unknown, store: string) {
+  console.error(`Error saving ${store}:`, error);
+  // Handle quota exceeded error
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    alert(`Storage quota exceeded. Please delete some ${store}.`);
+  }
+}
+
+function enqueueWrite(store: string, task: () => Promise<void>) {
+  writeQueue = writeQueue.then(task).catch(error => handleWriteError(error, store));
+}
+
+// Settings and the vault are written together so stored keys never get out of step with it
+async function writeSettings(settings: APISettings, vault: EncryptedVault | null) {
+  if (backend === 'localStorage') {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    if (vault) {
+      localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+    } else {
+      localStorage.removeItem(VAULT_KEY);
+    }
+  } else {
+    await writeAll({}, { [SETTINGS_META_KEY]: settings, [VAULT_META_KEY]: vault });
+  }
+  broadcast({ type: 'settings', settings, vault });
+}
+
+function hydrate<T extends CachedRecord>(store: RecordStore, records: T[]) {
+  cache.records[store] = new Map(records.map(record => [record.id, record]));
+  localIds[store] = new Set(cache.records[store].keys());
+}
+
+function updatedTime(record: CachedRecord): number {
+  const updatedAt = (record as { updatedAt?: unknown }).updatedAt;
+  return updatedAt instanceof Date ? updatedAt.getTime() : 0;
+}
+
+function readRecords<T>(store: RecordStore): T[] {
+  return Array.from(cache.records[store].values()) as unknown as T[];
+}
+
+/**
+ * Merges the array held in app state record by record with the cache, which
+ * also holds saves from other tabs: a newer cached copy is kept, and records
+ * this tab has not seen yet are neither overwritten nor deleted.
+ */
+function mergeWithCache<T extends CachedRecord>(store: RecordStore, records: T[]) {
+  const previous = cache.records[store];
+  const previousLocal = localIds[store];
+  const tombstones = remoteDeletes[store];
+  const merged = new Map<string, CachedRecord>();
+  const changed: CachedRecord[] = [];
+
+  for (const record of records) {
+    if (tombstones.has(record.id)) continue;
+    const cached = previous.get(record.id);
+    if (cached && cached !== record && updatedTime(cached) > updatedTime(record)) {
+      merged.set(record.id, cached);
+      continue;
+    }
+    merged.set(record.id, record);
+    if (cached !== record) changed.push(record);
+  }
+  for (const [id, cached] of previous) {
+    if (!merged.has(id) && !previousLocal.has(id)) merged.set(id, cached);
+  }
+
+  const deletes = Array.from(previous.keys()).filter(id => !merged.has(id));
+  return { merged, changed, deletes };
+}
+
+function saveRecords<T extends CachedRecord>(store: RecordStore, records: T[]) {
+  if (!Array.isArray(records)) {
+    console.error(`Invalid ${store} data`);
+    return;
+  }
+
+  const { merged, changed, deletes } = mergeWithCache(store, records);
+  const stateIds = new Set(records.map(record => record.id));
+  const tombstones = remoteDeletes[store];
+  tombstones.forEach(id => { if (!stateIds.has(id)) tombstones.delete(id); });
+  cache.records[store] = merged;
+  localIds[store] = stateIds;
+
+  if (changed.length === 0 && deletes.length === 0) return;
+
+  if (backend === 'localStorage') {
+    try {
+      const all = Array.from(merged.values());
+      localStorage.setItem(legacyKeys[store], JSON.stringify({ schemaVersion: currentVersion(store), records: all }));
+      broadcast({ type: 'records', store, puts: changed, deletes });
+    } catch (error) {
+      handleWriteError(error, store);
+    }
+    return;
+  }
+
+  const puts = changed.map(record => toEnvelope(store, record));
+  enqueueWrite(store, async () => {
+    await writeRecords(store, puts, deletes);
+    broadcast({ type: 'records', store, puts: changed, deletes });
+  });
+}
+
+// Applies a save from another tab to the cache; the newer copy of each record wins
+function applyRemoteRecords(store: RecordStore, puts: unknown[], deletes: string[]) {
+  const records = cache.records[store];
+  for (const value of puts) {
+    const record = normalizers[store](value);
+    const cached = records.get(record.id);
+    if (!cached || updatedTime(record) >= updatedTime(cached)) {
+      records.set(record.id, record);
+    }
+    remoteDeletes[store].delete(record.id);
+  }
+  for (const id of deletes) {
+    records.delete(id);
+    remoteDeletes[store].add(id);
+  }
+}
+
+async function applyRemoteSettings(settings: APISettings, vault: EncryptedVault | null) {
+  const stored = normalizeSettings(settings);
+  cache.vault = vault;
+  if (!vault) {
+    vaultSession = null;
+    cache.settings = stored;
+    return;
+  }
+  if (vaultSession) {
+    try {
+      cache.settings = applySecrets(stored, await unsealSecrets(vaultSession, vault));
+      return;
+    } catch {
+      // The passphrase was changed in the other tab
+      vaultSession = null;
+    }
+  }
+  cache.settings = stored;
+}
+
+async function handleSyncMessage(message: SyncMessage) {
+  switch (message.type) {
+    case 'records':
+      applyRemoteRecords(message.store, message.puts, message.deletes);
+      notify(message.store);
+      break;
+    case 'settings':
+      await applyRemoteSettings(message.settings, message.vault);
+      notify('settings');
+      break;
+    case 'documents':
+      notify('documents');
+      break;
+    case 'cleared':
+      for (const store of RECORD_STORES) {
+        cache.records[store].forEach((_, id) => remoteDeletes[store].add(id));
+        cache.records[store] = new Map();
+        notify(store);
+      }
+      cache.settings = defaultSettings;
+      cache.quarantine = [];
+      cache.vault = null;
+      vaultSession = null;
+      notify('settings');
+      notify('documents');
+      break;
+  }
+}
+
+function hydrateFromLocalStorage() {
+  backend = 'localStorage';
+  const quarantined = readLegacyQuarantine();
+  for (const store of RECORD_STORES) {
+    const loaded = readLegacyArray(store, legacyKeys[store]);
+    hydrate(store, loaded.records.map(normalizers[store]));
+    quarantined.push(...loaded.quarantined);
+  }
+  cache.settings = readLegacySettings();
+  cache.vault = readLegacyVault();
+  cache.quarantine = quarantined;
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify(quarantined));
+  } catch (error) {
+    console.error('Error saving quarantined data:', error);
+  }
+}
+
+// Copies the ai-tutor-* localStorage keys into IndexedDB in one transaction, then frees them
+async function migrateFromLocalStorage() {
+  const records: Partial<Record<RecordStore, StoredEnvelope[]>> = {};
+  const quarantined = readLegacyQuarantine();
+  for (const store of RECORD_STORES) {
+    const loaded = readLegacyArray(store, legacyKeys[store]);
+    records[store] = loaded.records.map(record => toEnvelope(store, normalizers[store](record)));
+    quarantined.push(...loaded.quarantined);
+  }
+
+  await writeAll(
+    records,
+    { [SETTINGS_META_KEY]: readLegacySettings(), [VAULT_META_KEY]: readLegacyVault(), [MIGRATED_META_KEY]: true },
+    quarantined
+  );
+  removeLegacyKeys();
+}
+
+// Loads one IndexedDB store, writing upgraded records back and moving unreadable ones to quarantine
+async function loadStore(store: RecordStore): Promise<CachedRecord[]> {
+  const loaded = loadStoredValues(store, store, await getAllRecords(store));
+  const records = loaded.records.map(normalizers[store]);
+
+  if (loaded.upgraded.length > 0) {
+    const upgradedIds = new Set(loaded.upgraded.map(record => record.id));
+    await writeRecords(store, records.filter(r => upgradedIds.has(r.id)).map(r => toEnvelope(store, r)));
+  }
+  if (loaded.quarantined.length > 0) {
+    console.warn(`Quarantined ${loaded.quarantined.length} unreadable ${store} record(s)`);
+    await quarantineRecords(store, loaded.quarantinedIds, loaded.quarantined);
+  }
+  return records;
+}
+
+const byUpdatedAtDesc = (a: { updatedAt: Date }, b: { updatedAt: Date }) =>
+  b.updatedAt.getTime() - a.updatedAt.getTime();
+
+/**
+ * Migrates and normalizes records from outside the database (e.g. a backup
+ * file) written at `schemaVersion`. Records that cannot be read are counted
+ * rather than returned.
+ */
+export function decodeRecords<T>(
+  store: RecordStore,
+  values: unknown[],
+  schemaVersion: number
+): { records: T[]; skipped: number } {
+  const loaded = loadStoredValues(store, store, values.map(record => ({
+    id: (record as { id?: unknown })?.id,
+    schemaVersion,
+    data: record,
+  })));
+  return {
+    records: loaded.records.map(normalizers[store]) as unknown as T[],
+    skipped: loaded.quarantined.length,
+  };
+}
+
 export const storageUtils = {
-  getConversations(): Conversation[] {
+  /**
+   * Loads everything into memory. Must resolve before the app renders;
+   * falls back to localStorage when IndexedDB cannot be opened.
+   */
+  async init(): Promise<void> {
+    if (!isIndexedDBAvailable()) {
+      hydrateFromLocalStorage();
+      openSyncChannel(handleSyncMessage);
+      return;
+    }
+
     try {
-      const stored = localStorage.getItem(CONVERSATIONS_KEY);
-      if (!stored) return [];
-      
-      const parsed = JSON.parse(stored);
-      if (!Array.isArray(parsed)) {
-        console.error('Invalid conversations format');
-        return [];
+      if (!(await getMeta<boolean>(MIGRATED_META_KEY))) {
+        await migrateFromLocalStorage();
       }
 
-      return parsed.map((conv: any) => ({
-        ...conv,
-        createdAt: parseDate(conv.createdAt),
-        updatedAt: parseDate(conv.updatedAt),
-        messages: Array.isArray(conv.messages) ? conv.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: parseDate(msg.timestamp),
-        })) : [],
-      }));
+      for (const store of RECORD_STORES) {
+        const records = await loadStore(store);
+        hydrate(store, (records as (CachedRecord & { updatedAt: Date })[]).sort(byUpdatedAtDesc));
+      }
+      cache.settings = normalizeSettings(await getMeta<Partial<APISettings>>(SETTINGS_META_KEY));
+      const vault = await getMeta<EncryptedVault | null>(VAULT_META_KEY);
+      cache.vault = isEncryptedVault(vault) ? vault : null;
+      cache.quarantine = await getAllRecords<QuarantinedItem>('quarantine');
+      backend = 'indexeddb';
     } catch (error) {
-      console.error('Error loading conversations:', error);
-      // Clear corrupted data
-      localStorage.removeItem(CONVERSATIONS_KEY);
-      return [];
+      console.error('IndexedDB unavailable, using localStorage instead:', error);
+      hydrateFromLocalStorage();
     }
+    openSyncChannel(handleSyncMessage);
   },
 
-  saveConversations(conversations: Conversation[]): void {
+  // Called after another tab changes a store; returns an unsubscribe function
+  subscribe(listener: (change: StorageChange) => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  /**
+   * Folds other tabs' changes into app state without losing local edits that
+   * have not been saved yet. Pure, so it is safe inside a state updater.
+   */
+  mergeWithStored<T extends { id: string }>(store: RecordStore, records: T[]): T[] {
+    return Array.from(mergeWithCache(store, records).merged.values()) as unknown as T[];
+  },
+
+  // Resolves once all queued writes have reached the database
+  flush(): Promise<void> {
+    return writeQueue;
+  },
+
+  // Data that could not be loaded, kept so it can be exported and recovered by hand
+  getQuarantine(): QuarantinedItem[] {
+    return cache.quarantine;
+  },
+
+  async clearQuarantine(): Promise<void> {
+    cache.quarantine = [];
     try {
-      if (!Array.isArray(conversations)) {
-        console.error('Invalid conversations data');
-        return;
+      if (backend === 'indexeddb') {
+        await clearQuarantineStore();
+      } else {
+        localStorage.removeItem(QUARANTINE_KEY);
       }
-      localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(conversations));
     } catch (error) {
-      console.error('Error saving conversations:', error);
-      // Handle quota exceeded error
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        alert('Storage quota exceeded. Please delete some conversations.');
-      }
+      console.error('Error clearing quarantined data:', error);
     }
   },
 
+  getConversations(): Conversation[] {
+    return readRecords<Conversation>('conversations');
+  },
+
+  saveConversations(conversations: Conversation[]): void {
+    saveRecords('conversations', conversations);
+  },
+
   getSettings(): APISettings {
-    try {
-      const stored = localStorage.getItem(SETTINGS_KEY);
-      if (!stored) return defaultSettings;
-      
-      const parsed = JSON.parse(stored);
-      // Ensure all required fields exist
-      return {
-        googleApiKey: parsed.googleApiKey || '',
-        zhipuApiKey: parsed.zhipuApiKey || '',
-        mistralApiKey: parsed.mistralApiKey || '',
-        selectedModel: parsed.selectedModel || 'google',
-        selectedTutorMode: parsed.selectedTutorMode || 'standard',
-      };
-    } catch (error) {
-      console.error('Error loading settings:', error);
-      localStorage.removeItem(SETTINGS_KEY);
-      return defaultSettings;
-    }
+    return cache.settings;
   },
 
   saveSettings(settings: APISettings): void {
-    try {
-      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-    } catch (error) {
-      console.error('Error saving settings:', error);
+    cache.settings = settings;
+    if (!cache.vault) {
+      enqueueWrite('settings', () => writeSettings(settings, null));
+      return;
     }
+
+    // With a passphrase set, API keys are only ever stored inside the encrypted vault
+    const { settings: stripped, secrets } = extractSecrets(settings);
+    const session = vaultSession;
+    enqueueWrite('settings', async () => {
+      if (session) cache.vault = await sealSecrets(session, secrets);
+      await writeSettings(stripped, cache.vault);
+    });
   },
 
-  getNotes(): Note[] {
-    try {
-      const stored = localStorage.getItem(NOTES_KEY);
-      if (!stored) return [];
-      
-      const parsed = JSON.parse(stored);
-      if (!Array.isArray(parsed)) {
-        console.error('Invalid notes format');
-        return [];
-      }
+  getVaultState(): 'none' | 'locked' | 'unlocked' {
+    if (!cache.vault) return 'none';
+    return vaultSession ? 'unlocked' : 'locked';
+  },
 
-      return parsed.map((note: any) => ({
-        ...note,
-        createdAt: parseDate(note.createdAt),
-        updatedAt: parseDate(note.updatedAt),
-      }));
-    } catch (error) {
-      console.error('Error loading notes:', error);
-      localStorage.removeItem(NOTES_KEY);
-      return [];
+  /**
+   * Decrypts the stored API keys into the in-memory settings.
+   * Rejects with "Incorrect passphrase." when the passphrase does not match.
+   */
+  async unlockVault(passphrase: string): Promise<APISettings> {
+    if (!cache.vault) return cache.settings;
+    const { session, secrets } = await openVault(cache.vault, passphrase);
+    vaultSession = session;
+    cache.settings = applySecrets(cache.settings, secrets);
+    return cache.settings;
+  },
+
+  // Forgets the derived key and drops the decrypted API keys from memory
+  lockVault(): APISettings {
+    if (cache.vault) {
+      vaultSession = null;
+      cache.settings = extractSecrets(cache.settings).settings;
     }
+    return cache.settings;
+  },
+
+  async enableVault(passphrase: string): Promise<void> {
+    const session = await createVaultSession(passphrase);
+    const { settings: stripped, secrets } = extractSecrets(cache.settings);
+    cache.vault = await sealSecrets(session, secrets);
+    vaultSession = session;
+    const vault = cache.vault;
+    enqueueWrite('settings', () => writeSettings(stripped, vault));
+    await writeQueue;
+  },
+
+  // Stores the API keys in plain text again; the vault must be unlocked
+  async disableVault(): Promise<void> {
+    if (!vaultSession) throw new Error('Unlock the vault before removing the passphrase.');
+    cache.vault = null;
+    vaultSession = null;
+    const settings = cache.settings;
+    enqueueWrite('settings', () => writeSettings(settings, null));
+    await writeQueue;
+  },
+
+  // For a forgotten passphrase: deletes the encrypted keys and keeps everything else
+  async resetVault(): Promise<APISettings> {
+    cache.vault = null;
+    vaultSession = null;
+    cache.settings = extractSecrets(cache.settings).settings;
+    const settings = cache.settings;
+    enqueueWrite('settings', () => writeSettings(settings, null));
+    await writeQueue;
+    return settings;
+  },
+
+  // The vault as stored once pending writes finish, for encrypted backups
+  async getEncryptedVault(): Promise<EncryptedVault | null> {
+    await writeQueue;
+    return cache.vault;
+  },
+
+  getNotes(): Note[] {
+    return readRecords<Note>('notes');
   },
 
   saveNotes(notes: Note[]): void {
-    try {
-      if (!Array.isArray(notes)) {
-        console.error('Invalid notes data');
-        return;
-      }
-      localStorage.setItem(NOTES_KEY, JSON.stringify(notes));
-    } catch (error) {
-      console.error('Error saving notes:', error);
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        alert('Storage quota exceeded. Please delete some notes.');
-      }
-    }
+    saveRecords('notes', notes);
   },
 
   getFlowcharts(): Flowchart[] {
-    try {
-      const stored = localStorage.getItem(FLOWCHARTS_KEY);
-      if (!stored) return [];
-      
-      const parsed = JSON.parse(stored);
-      if (!Array.isArray(parsed)) {
-        console.error('Invalid flowcharts format');
-        return [];
-      }
-
-      return parsed.map((chart: any) => ({
-        ...chart,
-        createdAt: parseDate(chart.createdAt),
-        updatedAt: parseDate(chart.updatedAt),
-      }));
-    } catch (error) {
-      console.error('Error loading flowcharts:', error);
-      localStorage.removeItem(FLOWCHARTS_KEY);
-      return [];
-    }
+    return readRecords<Flowchart>('flowcharts');
   },
 
   saveFlowcharts(flowcharts: Flowchart[]): void {
-    try {
-      if (!Array.isArray(flowcharts)) {
-        console.error('Invalid flowcharts data');
-        return;
-      }
-      localStorage.setItem(FLOWCHARTS_KEY, JSON.stringify(flowcharts));
-    } catch (error) {
-      console.error('Error saving flowcharts:', error);
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        alert('Storage quota exceeded. Please delete some flowcharts.');
-      }
-    }
+    saveRecords('flowcharts', flowcharts);
+  },
+
+  getStudySessions(): StudySession[] {
+    return readRecords<StudySession>('studySessions');
+  },
+
+  saveStudySessions(sessions: StudySession[]): void {
+    saveRecords('studySessions', sessions);
   },
 
-  clearAllData(): void {
+  getDecks(): FlashcardDeck[] {
+    return readRecords<FlashcardDeck>('decks');
+  },
+
+  saveDecks(decks: FlashcardDeck[]): void {
+    saveRecords('decks', decks);
+  },
+
+  async clearAllData(): Promise<void> {
     try {
-      localStorage.removeItem(CONVERSATIONS_KEY);
-      localStorage.removeItem(SETTINGS_KEY);
-      localStorage.removeItem(NOTES_KEY);
-      localStorage.removeItem(FLOWCHARTS_KEY);
+      await writeQueue;
+      hydrate('conversations', []);
+      hydrate('notes', []);
+      hydrate('flowcharts', []);
+      hydrate('studySessions', []);
+      hydrate('decks', []);
+      cache.settings = defaultSettings;
+      cache.quarantine = [];
+      cache.vault = null;
+      vaultSession = null;
+      removeLegacyKeys();
+      if (backend === 'indexeddb') {
+        await clearStores();
+      }
+      broadcast({ type: 'cleared' });
     } catch (error) {
       console.error('Error clearing data:', error);
     }
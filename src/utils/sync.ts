@@ -0,0 +1,84 @@
+// src/utils/sync.ts
+// Cross-tab messaging and locks. Changes are sent over a BroadcastChannel, or
+// through storage events where BroadcastChannel is missing. Neither transport
+// delivers a message back to the tab that sent it.
+
+import { APISettings } from '../types';
+import { RecordStore } from './db';
+import { EncryptedVault } from './vault';
+
+const CHANNEL_NAME = 'ai-tutor-sync';
+const STORAGE_EVENT_KEY = 'ai-tutor-sync';
+const STREAM_LOCK_PREFIX = 'ai-tutor-stream:';
+
+export type SyncMessage =
+  | { type: 'records'; store: RecordStore; puts: unknown[]; deletes: string[] }
+  | { type: 'settings'; settings: APISettings; vault: EncryptedVault | null }
+  | { type: 'documents' } // the library changed; other tabs reload it
+  | { type: 'cleared' };
+
+let channel: BroadcastChannel | null = null;
+
+/**
+ * Starts listening for changes made in other tabs. Safe to call more than once;
+ * only the first handler is kept.
+ */
+export function openSyncChannel(onMessage: (message: SyncMessage) => void): void {
+  if (channel) return;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => onMessage(event.data);
+    return;
+  }
+
+  window.addEventListener('storage', (event) => {
+    if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue).message);
+    } catch (error) {
+      console.error('Ignoring unreadable sync message:', error);
+    }
+  });
+}
+
+export function broadcast(message: SyncMessage): void {
+  try {
+    if (channel) {
+      channel.postMessage(message);
+      return;
+    }
+    // Writing a fresh value fires a storage event in every other tab; removing it keeps the key small
+    localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ message, sentAt: Date.now(), nonce: Math.random() }));
+    localStorage.removeItem(STORAGE_EVENT_KEY);
+  } catch (error) {
+    console.error('Error sending sync message:', error);
+  }
+}
+
+/**
+ * Claims the right to stream into a conversation across all tabs. Resolves to
+ * a release function, or null when another tab already holds the lock.
+ * Browsers without the Web Locks API cannot coordinate, so they always succeed.
+ */
+export function acquireConversationLock(conversationId: string): Promise<(() => void) | null> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return Promise.resolve(() => {});
+  }
+
+  return new Promise(resolve => {
+    navigator.locks
+      .request(STREAM_LOCK_PREFIX + conversationId, { ifAvailable: true }, lock => {
+        if (!lock) {
+          resolve(null);
+          return;
+        }
+        // Hold the lock until the caller releases it
+        return new Promise<void>(release => resolve(release));
+      })
+      .catch(error => {
+        console.error('Error acquiring conversation lock:', error);
+        resolve(() => {});
+      });
+  });
+}
@@ -0,0 +1,139 @@
+// src/utils/vault.ts
+// Encrypts API keys at rest with a key derived from a user passphrase.
+//
+// PBKDF2 turns the passphrase into an AES-GCM key. Only the derived key is kept
+// in memory while unlocked, never the passphrase. Every save uses a fresh IV.
+
+import { APISettings, ApiKeyField } from '../types';
+
+const API_KEY_FIELDS: ApiKeyField[] = ['googleApiKey', 'zhipuApiKey', 'mistralApiKey', 'anthropicApiKey'];
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedVault {
+  version: 1;
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64
+  ciphertext: string; // base64, AES-GCM over the JSON of VaultSecrets
+}
+
+export interface VaultSecrets {
+  apiKeys: Partial<Record<ApiKeyField, string>>;
+  endpointKeys: Record<string, string>; // custom endpoint id -> API key
+}
+
+// An unlocked vault: the derived key plus the parameters needed to seal new contents
+export interface VaultSession {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+export function isVaultSupported(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Splits settings into a copy with every API key blanked and the keys themselves.
+ */
+export function extractSecrets(settings: APISettings): { settings: APISettings; secrets: VaultSecrets } {
+  const secrets: VaultSecrets = { apiKeys: {}, endpointKeys: {} };
+  const stripped: APISettings = { ...settings };
+
+  for (const field of API_KEY_FIELDS) {
+    if (settings[field]) secrets.apiKeys[field] = settings[field];
+    stripped[field] = '';
+  }
+  stripped.customEndpoints = settings.customEndpoints.map(endpoint => {
+    if (endpoint.apiKey) secrets.endpointKeys[endpoint.id] = endpoint.apiKey;
+    return { ...endpoint, apiKey: undefined };
+  });
+
+  return { settings: stripped, secrets };
+}
+
+export function applySecrets(settings: APISettings, secrets: VaultSecrets): APISettings {
+  const merged: APISettings = { ...settings };
+  for (const field of API_KEY_FIELDS) {
+    merged[field] = secrets.apiKeys[field] || settings[field];
+  }
+  merged.customEndpoints = settings.customEndpoints.map(endpoint => ({
+    ...endpoint,
+    apiKey: secrets.endpointKeys[endpoint.id] || endpoint.apiKey,
+  }));
+  return merged;
+}
+
+export async function createVaultSession(passphrase: string): Promise<VaultSession> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+}
+
+export async function sealSecrets(session: VaultSession, secrets: VaultSecrets): Promise<EncryptedVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(secrets));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, session.key, plaintext);
+  return {
+    version: 1,
+    iterations: session.iterations,
+    salt: toBase64(session.salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+async function decryptSecrets(key: CryptoKey, vault: EncryptedVault): Promise<VaultSecrets> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.ciphertext));
+  } catch {
+    throw new Error('Incorrect passphrase.');
+  }
+  const secrets = JSON.parse(new TextDecoder().decode(plaintext)) as VaultSecrets;
+  return { apiKeys: secrets.apiKeys || {}, endpointKeys: secrets.endpointKeys || {} };
+}
+
+/**
+ * Decrypts a vault. A wrong passphrase fails the AES-GCM integrity check,
+ * which is reported as an incorrect passphrase.
+ */
+export async function openVault(
+  vault: EncryptedVault,
+  passphrase: string
+): Promise<{ session: VaultSession; secrets: VaultSecrets }> {
+  const salt = fromBase64(vault.salt);
+  const key = await deriveKey(passphrase, salt, vault.iterations);
+  return { session: { key, salt, iterations: vault.iterations }, secrets: await decryptSecrets(key, vault) };
+}
+
+// Reads a vault sealed by another tab with the same key; fails if the passphrase has since changed
+export function unsealSecrets(session: VaultSession, vault: EncryptedVault): Promise<VaultSecrets> {
+  return decryptSecrets(session.key, vault);
+}
+
+export function isEncryptedVault(value: unknown): value is EncryptedVault {
+  const vault = value as Partial<EncryptedVault> | null;
+  return !!vault && vault.version === 1 && typeof vault.iterations === 'number'
+    && typeof vault.salt === 'string' && typeof vault.iv === 'string' && typeof vault.ciphertext === 'string';
+}